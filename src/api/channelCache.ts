@@ -0,0 +1,217 @@
+// src/api/channelCache.ts
+import type { ChannelDataPoint } from './sessionApi';
+import { createAbortError } from './http';
+
+// Maximum number of channel series kept in memory at once
+const MEMORY_CACHE_SIZE = 200;
+
+const DB_NAME = 'lapviz-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'channelData';
+
+interface LruCache<K, V> {
+  get: (key: K) => V | undefined;
+  set: (key: K, value: V) => void;
+  clear: () => void;
+}
+
+/**
+ * Creates a least-recently-used cache holding at most `capacity` entries.
+ * A Map keeps insertion order, so re-inserting on access moves an entry to the end
+ * and the first key is always the least recently used one.
+ */
+const createLruCache = <K, V>(capacity: number): LruCache<K, V> => {
+  const entries = new Map<K, V>();
+
+  return {
+    get: (key) => {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > capacity) {
+        const oldestKey = entries.keys().next().value as K;
+        entries.delete(oldestKey);
+      }
+    },
+    clear: () => entries.clear(),
+  };
+};
+
+const memoryCache = createLruCache<string, ChannelDataPoint[]>(MEMORY_CACHE_SIZE);
+
+// A request currently on the wire, shared by every caller asking for the same series
+interface InFlightRequest {
+  promise: Promise<ChannelDataPoint[]>;
+  controller: AbortController;
+  subscribers: number; // Callers that have not cancelled yet
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+// Module-level promise to ensure the database is opened only once
+let openDatabasePromise: Promise<IDBDatabase | null> | null = null;
+
+// Opens the IndexedDB database, resolving to null when persistence is unavailable
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!openDatabasePromise) {
+    openDatabasePromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('Channel cache: IndexedDB unavailable, using memory cache only.', request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Channel cache: IndexedDB unavailable, using memory cache only.', error);
+        resolve(null);
+      }
+    });
+  }
+  return openDatabasePromise;
+};
+
+// Reads a persisted series, treating any storage failure as a cache miss
+const readPersisted = async (key: string): Promise<ChannelDataPoint[] | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+  return new Promise((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+      request.onsuccess = () => resolve(request.result as ChannelDataPoint[] | undefined);
+      request.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+};
+
+// Persists a series in the background; failures only cost a future network request
+const writePersisted = async (key: string, data: ChannelDataPoint[]): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(data, key);
+  } catch (error) {
+    console.warn('Channel cache: failed to persist channel data.', error);
+  }
+};
+
+/**
+ * Builds the cache key for a channel series.
+ * @param scope Namespace for the key (e.g. the data source kind), so sources never share entries.
+ */
+export const channelCacheKey = (scope: string, sessionId: string, lap: number, channel: string): string =>
+  `${scope}:${sessionId}/${lap}/${channel}`;
+
+// Hands a shared request to one caller. The caller's signal only rejects its own promise;
+// the underlying request is aborted once every caller has cancelled.
+const subscribe = (key: string, entry: InFlightRequest, signal?: AbortSignal): Promise<ChannelDataPoint[]> => {
+  entry.subscribers++;
+  if (!signal) {
+    return entry.promise;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      entry.subscribers--;
+      if (entry.subscribers === 0) {
+        entry.controller.abort();
+        inFlightRequests.delete(key);
+      }
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    entry.promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+/**
+ * Returns a channel series from the memory cache, IndexedDB or the loader, in that order.
+ * Concurrent calls for the same key share one pending request.
+ * @param key The cache key, see `channelCacheKey`.
+ * @param load Loads the series when it is not cached, honouring the given signal.
+ * @param persist Whether the series is also stored in IndexedDB across reloads.
+ * @param signal Cancels this caller's interest in the series.
+ */
+export const getCachedChannelData = (
+  key: string,
+  load: (signal: AbortSignal) => Promise<ChannelDataPoint[]>,
+  persist: boolean = true,
+  signal?: AbortSignal
+): Promise<ChannelDataPoint[]> => {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError());
+  }
+
+  const cached = memoryCache.get(key);
+  if (cached) {
+    return Promise.resolve(cached);
+  }
+
+  let entry = inFlightRequests.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const request: InFlightRequest = {
+      controller,
+      subscribers: 0,
+      promise: (async () => {
+        const persisted = persist ? await readPersisted(key) : undefined;
+        if (persisted) {
+          memoryCache.set(key, persisted);
+          return persisted;
+        }
+        const data = await load(controller.signal);
+        memoryCache.set(key, data);
+        if (persist) {
+          void writePersisted(key, data);
+        }
+        return data;
+      })().finally(() => {
+        if (inFlightRequests.get(key) === request) {
+          inFlightRequests.delete(key);
+        }
+      }),
+    };
+    inFlightRequests.set(key, request);
+    entry = request;
+  }
+
+  return subscribe(key, entry, signal);
+};
+
+/**
+ * Clears both the in-memory and the persisted channel cache.
+ */
+export const clearChannelCache = async (): Promise<void> => {
+  memoryCache.clear();
+  const db = await openDatabase();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear();
+      request.onsuccess = () => resolve();
+      request.onerror = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+};
@@ -0,0 +1,39 @@
+// src/api/channelFilters.ts
+import { SIGNAL_FILTERS, SignalFilter } from '../utils/signalFilters';
+
+// Filters are kept per channel name, so they follow a channel into every session
+const STORAGE_KEY = 'lapviz-channel-filters';
+
+const isSignalFilter = (entry: unknown): entry is SignalFilter => {
+  const filter = entry as SignalFilter | null;
+  return typeof filter?.type === 'string'
+    && filter.type in SIGNAL_FILTERS
+    && typeof filter.parameter === 'number'
+    && typeof filter.showRaw === 'boolean';
+};
+
+/**
+ * Reads the saved channel filters from local storage.
+ * Malformed entries are ignored.
+ */
+export const loadChannelFilters = (): Record<string, SignalFilter> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+    if (typeof stored !== 'object' || stored === null || Array.isArray(stored)) return {};
+    return Object.fromEntries(Object.entries(stored).filter(([, filter]) => isSignalFilter(filter))) as Record<string, SignalFilter>;
+  } catch (error) {
+    console.warn('Failed to read channel filters:', error);
+    return {};
+  }
+};
+
+/**
+ * Saves the channel filters to local storage.
+ */
+export const saveChannelFilters = (filters: Record<string, SignalFilter>): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+  } catch (error) {
+    console.warn('Failed to save channel filters:', error);
+  }
+};
@@ -0,0 +1,151 @@
+// src/api/http.ts
+
+// Per-request options accepted by every function of the session API
+export interface RequestOptions {
+  signal?: AbortSignal;  // Cancels the request, rejecting with an AbortError
+  timeoutMs?: number;    // Overrides the policy timeout for this request
+  retries?: number;      // Overrides the policy retry count for this request
+}
+
+// Timeout and retry settings applied to every HTTP request
+export interface RequestPolicy {
+  timeoutMs: number;     // Time allowed per attempt
+  retries: number;       // Extra attempts after a transient failure
+  retryDelayMs: number;  // Delay before the first retry, doubled for each further retry
+}
+
+const parseEnvNumber = (value: string | undefined, fallback: number): number => {
+  const parsed = value !== undefined ? Number(value) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+let requestPolicy: RequestPolicy = {
+  timeoutMs: parseEnvNumber(import.meta.env.VITE_REQUEST_TIMEOUT_MS, 15000),
+  retries: parseEnvNumber(import.meta.env.VITE_REQUEST_RETRIES, 3),
+  retryDelayMs: 500,
+};
+
+/**
+ * Updates the timeout and retry settings used for all subsequent requests.
+ * @param policy The settings to change.
+ */
+export const setRequestPolicy = (policy: Partial<RequestPolicy>): void => {
+  requestPolicy = { ...requestPolicy, ...policy };
+};
+
+/**
+ * Error for a response with a non-2xx status.
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string) {
+    super(`HTTP error! status: ${status} - ${statusText || 'Failed to fetch'}`);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Error for a request attempt that took longer than the configured timeout.
+ */
+export class TimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Whether an error comes from a cancelled request and should be ignored by the UI.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+export const createAbortError = (): DOMException => new DOMException('The request was aborted.', 'AbortError');
+
+// Network failures, timeouts and server errors are worth another attempt; client errors are not
+const isTransientError = (error: unknown): boolean =>
+  error instanceof TimeoutError ||
+  error instanceof TypeError ||
+  (error instanceof HttpError && error.status >= 500);
+
+// Resolves after `ms`, or rejects early if the signal is aborted
+const delay = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Performs a single attempt, aborting it when the caller cancels or the timeout elapses
+const fetchJsonOnce = async <T>(url: string, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+
+    if (!response.ok) {
+      // Attempt to get error message from response body, otherwise use status text
+      let errorBody = '';
+      try {
+        errorBody = await response.text();
+      } catch {
+        // Ignore error reading body
+      }
+      console.error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
+      throw new HttpError(response.status, response.statusText);
+    }
+
+    return await response.json();
+  } catch (error) {
+    if (timedOut) throw new TimeoutError(url, timeoutMs);
+    if (signal?.aborted) throw createAbortError();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Fetches a JSON document, retrying timeouts, network errors and 5xx responses
+ * with exponential backoff.
+ * @param url The URL to fetch.
+ * @param options Cancellation signal and per-request timeout and retry overrides.
+ * @throws An AbortError if the signal is aborted.
+ * @throws The last error once all attempts have failed.
+ */
+export const fetchJson = async <T>(url: string, options: RequestOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = requestPolicy.timeoutMs, retries = requestPolicy.retries } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchJsonOnce<T>(url, timeoutMs, signal);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= retries || !isTransientError(error)) {
+        throw error;
+      }
+      const backoffMs = requestPolicy.retryDelayMs * 2 ** attempt;
+      console.warn(`Request to ${url} failed (attempt ${attempt + 1}/${retries + 1}), retrying in ${backoffMs}ms.`, error);
+      await delay(backoffMs, signal);
+    }
+  }
+};
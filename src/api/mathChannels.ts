@@ -0,0 +1,167 @@
+// src/api/mathChannels.ts
+import type { ChannelDataPoint, SessionData } from './sessionApi';
+import { parseMathExpression, getChannelReferences, evaluateMathExpression, MathExpressionError } from '../utils/mathExpression';
+import { resampleSeries } from '../utils/resample';
+
+// A user-defined channel computed from other channels
+export interface MathChannelDefinition {
+  name: string;
+  expression: string;
+  unit?: string;
+}
+
+const STORAGE_KEY_PREFIX = 'lapviz-math-channels:';
+
+// Math channels of each open session, consulted when channel data is fetched
+const sessionMathChannels = new Map<string, MathChannelDefinition[]>();
+
+/**
+ * Key math channels are stored under: the circuit they were made for, so they are
+ * available in every session at that circuit.
+ */
+export const getMathChannelScope = (session: SessionData): string => {
+  const venue = session.circuit?.venue?.trim();
+  return venue ? `circuit:${venue.toLowerCase()}` : `session:${session.shareId}`;
+};
+
+/**
+ * Reads the math channels saved for a circuit from local storage.
+ * Malformed entries are ignored.
+ */
+export const loadMathChannels = (scope: string): MathChannelDefinition[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PREFIX + scope) ?? '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((entry): entry is MathChannelDefinition =>
+      typeof entry?.name === 'string' && typeof entry?.expression === 'string'
+    );
+  } catch (error) {
+    console.warn(`Failed to read math channels for ${scope}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Saves the math channels of a circuit to local storage.
+ */
+export const saveMathChannels = (scope: string, definitions: MathChannelDefinition[]): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + scope, JSON.stringify(definitions));
+  } catch (error) {
+    console.warn(`Failed to save math channels for ${scope}:`, error);
+  }
+};
+
+/**
+ * Makes math channels fetchable for a session like native channels.
+ */
+export const setSessionMathChannels = (sessionId: string, definitions: MathChannelDefinition[]): void => {
+  sessionMathChannels.set(sessionId, definitions);
+};
+
+export const getMathChannel = (sessionId: string, channel: string): MathChannelDefinition | undefined =>
+  sessionMathChannels.get(sessionId)?.find(definition => definition.name === channel);
+
+/**
+ * Identifies a math channel by its own expression and the expressions of every math channel
+ * it depends on, so a change anywhere in the chain gives a new key.
+ */
+export const getMathChannelKey = (sessionId: string, channel: string): string => {
+  const parts: string[] = [];
+  const pending = [channel];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const name = pending.pop() as string;
+    if (visited.has(name)) continue;
+    visited.add(name);
+    const definition = getMathChannel(sessionId, name);
+    if (!definition) continue;
+    parts.push(`${name}=${definition.expression}`);
+    try {
+      pending.push(...getChannelReferences(parseMathExpression(definition.expression)));
+    } catch {
+      // A broken expression has no references to follow
+    }
+  }
+  return parts.join(';');
+};
+
+/**
+ * Checks a math channel before it is saved.
+ * @param definition The channel to check.
+ * @param nativeChannels The session's own channels.
+ * @param others The other math channels of the circuit.
+ * @returns A description of the problem, or null when the channel is valid.
+ */
+export const validateMathChannel = (
+  definition: MathChannelDefinition,
+  nativeChannels: string[],
+  others: MathChannelDefinition[]
+): string | null => {
+  const name = definition.name.trim();
+  if (!name) return 'Name is required';
+  if (nativeChannels.includes(name)) return `"${name}" is already a session channel`;
+  if (others.some(other => other.name === name)) return `A math channel named "${name}" already exists`;
+
+  let references: string[];
+  try {
+    references = getChannelReferences(parseMathExpression(definition.expression));
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid expression';
+  }
+  if (references.length === 0) return 'The expression must use at least one channel';
+
+  const known = new Set([...nativeChannels, ...others.map(other => other.name)]);
+  const unknown = references.find(reference => !known.has(reference));
+  if (unknown) return `Unknown channel "${unknown}"`;
+
+  // Refuse channels that end up depending on themselves
+  const byName = new Map(others.map(other => [other.name, other]));
+  const pending = [...references];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    if (current === name) return 'The expression refers to itself through another math channel';
+    if (visited.has(current)) continue;
+    visited.add(current);
+    const other = byName.get(current);
+    if (other) {
+      try {
+        pending.push(...getChannelReferences(parseMathExpression(other.expression)));
+      } catch {
+        // A broken channel cannot complete a cycle
+      }
+    }
+  }
+  return null;
+};
+
+/**
+ * Computes a math channel for one lap. Every referenced channel is resampled onto the
+ * timestamps of the first one before the expression is evaluated.
+ * @param definition The math channel.
+ * @param loadChannel Loads a referenced channel of the same lap.
+ * @returns The computed samples; samples that cannot be computed are left out.
+ * @throws A MathExpressionError if the expression is invalid.
+ */
+export const computeMathChannel = async (
+  definition: MathChannelDefinition,
+  loadChannel: (channel: string) => Promise<ChannelDataPoint[]>
+): Promise<ChannelDataPoint[]> => {
+  const tree = parseMathExpression(definition.expression);
+  const references = getChannelReferences(tree);
+  if (references.length === 0) {
+    throw new MathExpressionError('The expression must use at least one channel');
+  }
+
+  const series = await Promise.all(references.map(loadChannel));
+  const timestamps = [...new Set(series[0].map(point => point.s))]
+    .filter(s => Number.isFinite(s))
+    .sort((a, b) => a - b);
+  const values = Object.fromEntries(references.map((reference, i) => [reference, resampleSeries(series[i], timestamps)]));
+
+  const result = evaluateMathExpression(tree, timestamps, values);
+  return timestamps
+    .map((s, i) => ({ s, d: result[i] }))
+    .filter(point => Number.isFinite(point.d));
+};
@@ -1,36 +1,85 @@
 // src/api/sessionApi.ts
+import { getSessionDataSource } from './sessionDataSource';
+import { getCachedChannelData, channelCacheKey } from './channelCache';
+import { validateSessionData } from './sessionValidation';
+import { alignChannels } from '../utils/resample';
+import { isAbortError, RequestOptions } from './http';
+import { getMathChannel, getMathChannelKey, computeMathChannel } from './mathChannels';
+
+// Fields shared by every timing event in a session payload
+interface SessionEventBase {
+  timestamp: string;   // ISO timestamp at which the lap or sector was completed
+  time: string;        // Duration of the lap or sector ("HH:MM:SS.fffffff")
+  lap: number;         // Lap number, starting at 1
+  sector: number;      // Sector number, 0 for lap events
+  seconds: number;
+  startSecond: number; // Start offset from the session start, in seconds
+}
+
+// Lap completion event
+export interface LapEvent extends SessionEventBase {
+  type: 'lap';
+}
+
+// Sector completion event
+export interface SectorEvent extends SessionEventBase {
+  type: 'sector';
+}
+
+export type SessionEvent = LapEvent | SectorEvent;
 
 // Define a type for the expected API response structure
 export interface SessionData {
   shareId: string;
+  session: string | null;
   driver: {
+    compositeId: string | null;
     displayName: string | null;
-    // Add other driver fields if needed
+    teamName: string | null;
+    avatarUrl: string | null;
+    licenseCountry: string | null; // ISO country code, or "_unknown"
+    number: string | null;         // Race number
+    category: string | null;
   } | null;
   circuit: {
+    id: string | null;
     venue: string | null;
+    track: string | null;          // Layout, for venues with several
+    code: string | null;
+    countryCode: string | null;    // ISO 3166-1 alpha-2, lower case
+    imageUrl: string | null;
     location: string | null;
     latitude: number | null;
     longitude: number | null;
     zoom: number | null;
-    // Add other circuit fields if needed
+    test: boolean;
+    lastActivity: string | null;
   } | null;
+  group: string | null;
+  selected: boolean;
+  views: number | null;
   start: string | null;
   end: string | null;
+  duration: number | null;         // Minutes of timed laps, the out lap excluded
   best: string | null;
   rolling: string | null;
   theorical: string | null;
-  events: any[]; // Define more specific type if needed
+  description: string | null;
+  events: SessionEvent[];
   channels: string[];
   weather: {
-    temperature: number | null;
-    pressure: number | null;
+    temperature: number | null;    // °C
+    humidity: number | null;       // %
+    pressure: number | null;       // hPa
+    precipitation: number | null;  // mm
     conditions: string | null;
-    // Add other weather fields if needed
+    cloudCover: number | null;     // %
+    windSpeed: number | null;      // km/h
+    icon: string | null;
   } | null;
   video: string | null;
   sync: string | null;
-  // Add any other top-level fields from the response
+  transferToken: string | null;
 }
 
 // Interface for channel data points
@@ -46,126 +95,96 @@ export interface TrackPathPoint {
   s: number;   // Time in seconds
 }
 
-const BASE_API_URL = 'https://lapviz.com/api/Session';
-
 /**
- * Fetches session data from the API.
+ * Fetches session data from the active session data source.
  * @param sessionId The session ID to fetch data for.
- * @returns A promise that resolves with the SessionData.
+ * @param options Cancellation signal and timeout/retry overrides.
+ * @returns A promise that resolves with the validated SessionData.
  * @throws An error if the fetch request fails or the response is not ok.
+ * @throws A SessionValidationError if the payload is malformed.
+ * @throws An AbortError if the request is cancelled.
  */
-export const fetchSessionData = async (sessionId: string): Promise<SessionData> => {
-  const apiEndpoint = `${BASE_API_URL}/${sessionId}`;
-  console.log(`Fetching session data from: ${apiEndpoint}`);
-  
-  const response = await fetch(apiEndpoint);
-  
-  if (!response.ok) {
-    // Attempt to get error message from response body, otherwise use status text
-    let errorBody = '';
-    try {
-        errorBody = await response.text();
-    } catch {
-        // Ignore error reading body
-    }
-    console.error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
-    throw new Error(`HTTP error! status: ${response.status} - ${response.statusText || 'Failed to fetch'}`);
-  }
-
-  const data: SessionData = await response.json();
-  return data;
+export const fetchSessionData = async (sessionId: string, options: RequestOptions = {}): Promise<SessionData> => {
+  const payload: unknown = await getSessionDataSource(sessionId).getSession(sessionId, options);
+  return validateSessionData(payload);
 };
 
 /**
  * Fetches channel data for a specific lap.
+ * Results are cached in memory and IndexedDB, and concurrent requests for the same series are shared.
  * @param sessionId The session ID to fetch data for.
  * @param lap The lap number.
  * @param channel The channel name.
+ * @param options Cancellation signal and timeout/retry overrides.
  * @returns A promise that resolves with an array of channel data points.
  * @throws An error if the fetch request fails or the response is not ok.
+ * @throws An AbortError if the request is cancelled.
  */
 export const fetchLapChannelData = async (
   sessionId: string,
   lap: number,
-  channel: string
+  channel: string,
+  options: RequestOptions = {}
 ): Promise<ChannelDataPoint[]> => {
-  const apiEndpoint = `${BASE_API_URL}/data/${sessionId}/${lap}/${channel}`;
-  console.log(`Fetching channel data from: ${apiEndpoint}`);
-  
-  const response = await fetch(apiEndpoint);
-  
-  if (!response.ok) {
-    let errorBody = '';
-    try {
-      errorBody = await response.text();
-    } catch {
-      // Ignore error reading body
-    }
-    console.error(`HTTP error! status: ${response.status}, body: ${errorBody}`);
-    throw new Error(`HTTP error! status: ${response.status} - ${response.statusText || 'Failed to fetch'}`);
-  }
+  const source = getSessionDataSource(sessionId);
+  const { signal, ...requestOptions } = options;
 
-  const data: ChannelDataPoint[] = await response.json();
-  return data;
+  // Math channels are computed from the channels they reference; the key holds the expressions
+  // of the whole chain so editing a channel or one it uses never serves stale values
+  const mathChannel = getMathChannel(sessionId, channel);
+  if (mathChannel) {
+    return getCachedChannelData(
+      channelCacheKey('math', sessionId, lap, getMathChannelKey(sessionId, channel)),
+      (sharedSignal) => computeMathChannel(
+        mathChannel,
+        (reference) => fetchLapChannelData(sessionId, lap, reference, { ...requestOptions, signal: sharedSignal })
+      ),
+      false,
+      signal
+    );
+  }
+  // Only live API responses are worth persisting; fixtures are already local
+  return getCachedChannelData(
+    channelCacheKey(source.kind, sessionId, lap, channel),
+    (sharedSignal) => source.getLapChannel(sessionId, lap, channel, { ...requestOptions, signal: sharedSignal }),
+    source.kind === 'http',
+    signal
+  );
 };
 
 /**
  * Fetches track path data (lat/lng coordinates) for a specific lap.
  * @param sessionId The session ID to fetch data for.
  * @param lap The lap number.
+ * @param options Cancellation signal and timeout/retry overrides.
  * @returns A promise that resolves with an array of track path points.
  * @throws An error if the fetch request fails or the response is not ok.
+ * @throws An AbortError if the request is cancelled.
  */
 export const fetchLapTrackPath = async (
   sessionId: string,
-  lap: number
+  lap: number,
+  options: RequestOptions = {}
 ): Promise<TrackPathPoint[]> => {
-  // We need to fetch both latitude and longitude channels
-  const latitudeEndpoint = `${BASE_API_URL}/data/${sessionId}/${lap}/Latitude`;
-  const longitudeEndpoint = `${BASE_API_URL}/data/${sessionId}/${lap}/Longitude`;
-  console.log(`Fetching track path data from: ${latitudeEndpoint} and ${longitudeEndpoint}`);
-  
   try {
-    // Fetch both channels in parallel
-    const [latResponse, lngResponse] = await Promise.all([
-      fetch(latitudeEndpoint),
-      fetch(longitudeEndpoint)
+    // Fetch both latitude and longitude channels in parallel
+    const [latData, lngData] = await Promise.all([
+      fetchLapChannelData(sessionId, lap, 'Latitude', options),
+      fetchLapChannelData(sessionId, lap, 'Longitude', options)
     ]);
     
-    // Check if both responses are ok
-    if (!latResponse.ok) {
-      throw new Error(`HTTP error fetching latitude! status: ${latResponse.status}`);
-    }
-    if (!lngResponse.ok) {
-      throw new Error(`HTTP error fetching longitude! status: ${lngResponse.status}`);
-    }
-    
-    // Parse the JSON responses
-    const latData: ChannelDataPoint[] = await latResponse.json();
-    const lngData: ChannelDataPoint[] = await lngResponse.json();
-    
-    // Merge the data into track path points
-    // This assumes both arrays have matching time points
-    // A more robust implementation might interpolate missing points
-    const trackPath: TrackPathPoint[] = [];
-    
-    // Use the shorter array length to avoid index out of bounds
-    const minLength = Math.min(latData.length, lngData.length);
-    
-    for (let i = 0; i < minLength; i++) {
-      // Make sure we have valid coordinate data
-      if (latData[i] && lngData[i] && !isNaN(latData[i].d) && !isNaN(lngData[i].d)) {
-        trackPath.push({
-          lat: latData[i].d,
-          lng: lngData[i].d,
-          s: latData[i].s, // Use time from latitude data (should match longitude)
-        });
-      }
-    }
+    // Join the two channels on their timestamps, interpolating where they differ
+    const trackPath: TrackPathPoint[] = alignChannels([latData, lngData]).map(({ s, values }) => ({
+      lat: values[0],
+      lng: values[1],
+      s,
+    }));
     
     return trackPath;
   } catch (error) {
-    console.error("Error fetching track path data:", error);
+    if (!isAbortError(error)) {
+      console.error("Error fetching track path data:", error);
+    }
     throw error;
   }
 }; 
\ No newline at end of file
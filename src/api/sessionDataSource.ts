@@ -0,0 +1,162 @@
+// src/api/sessionDataSource.ts
+import type { SessionData, ChannelDataPoint } from './sessionApi';
+import { fetchJson, createAbortError, RequestOptions } from './http';
+
+// Names of the available data source implementations
+export type SessionSourceKind = 'http' | 'fixture' | 'local';
+
+// Abstraction over where session metadata and channel data come from
+export interface SessionDataSource {
+  kind: SessionSourceKind;
+  getSession: (sessionId: string, options?: RequestOptions) => Promise<SessionData>;
+  getLapChannel: (
+    sessionId: string,
+    lap: number,
+    channel: string,
+    options?: RequestOptions
+  ) => Promise<ChannelDataPoint[]>;
+}
+
+// A recorded session: the session payload (same shape as the API response)
+// plus optional channel data keyed by lap number, then by channel name
+export type SessionFixture = SessionData & {
+  channelData?: Record<string, Record<string, ChannelDataPoint[]>>;
+};
+
+const DEFAULT_API_URL = 'https://lapviz.com/api/Session';
+const DEFAULT_FIXTURE_BASE_URL = '/fixtures';
+
+/**
+ * Creates a data source backed by the live LapViz REST API.
+ * @param baseUrl The base URL of the session API.
+ */
+export const createHttpDataSource = (baseUrl: string = DEFAULT_API_URL): SessionDataSource => ({
+  kind: 'http',
+  getSession: (sessionId, options) => {
+    const apiEndpoint = `${baseUrl}/${sessionId}`;
+    console.log(`Fetching session data from: ${apiEndpoint}`);
+    return fetchJson<SessionData>(apiEndpoint, options);
+  },
+  getLapChannel: (sessionId, lap, channel, options) => {
+    const apiEndpoint = `${baseUrl}/data/${sessionId}/${lap}/${encodeURIComponent(channel)}`;
+    console.log(`Fetching channel data from: ${apiEndpoint}`);
+    return fetchJson<ChannelDataPoint[]>(apiEndpoint, options);
+  },
+});
+
+/**
+ * Creates a data source that serves recorded sessions from static JSON files.
+ * Each session is read from `${baseUrl}/${sessionId}.json`, in the same format as
+ * the API response, with channel data optionally embedded under `channelData`.
+ * A fixture file is shared by all requests, so cancelling one request never aborts its download.
+ * Channels missing from a fixture resolve to an empty series.
+ * @param baseUrl The URL prefix the fixture files are served from.
+ */
+export const createFixtureDataSource = (baseUrl: string = DEFAULT_FIXTURE_BASE_URL): SessionDataSource => {
+  // Each fixture file is loaded once and shared by all subsequent lookups
+  const fixtures = new Map<string, Promise<SessionFixture>>();
+
+  const loadFixture = (sessionId: string): Promise<SessionFixture> => {
+    let fixture = fixtures.get(sessionId);
+    if (!fixture) {
+      const fixtureUrl = `${baseUrl}/${sessionId}.json`;
+      console.log(`Loading session fixture from: ${fixtureUrl}`);
+      fixture = fetchJson<SessionFixture>(fixtureUrl);
+      // Drop failed loads so a later call can retry
+      fixture.catch(() => fixtures.delete(sessionId));
+      fixtures.set(sessionId, fixture);
+    }
+    return fixture;
+  };
+
+  return {
+    kind: 'fixture',
+    getSession: async (sessionId, options) => {
+      const fixture = await loadFixture(sessionId);
+      if (options?.signal?.aborted) throw createAbortError();
+      return fixture;
+    },
+    getLapChannel: async (sessionId, lap, channel, options) => {
+      const fixture = await loadFixture(sessionId);
+      if (options?.signal?.aborted) throw createAbortError();
+      return fixture.channelData?.[lap]?.[channel] ?? [];
+    },
+  };
+};
+
+/**
+ * Creates a data source serving sessions held in memory, such as imported telemetry files.
+ * @param sessions The sessions to serve, keyed by session ID.
+ */
+export const createLocalDataSource = (sessions: Map<string, SessionFixture>): SessionDataSource => {
+  const getFixture = (sessionId: string): SessionFixture => {
+    const fixture = sessions.get(sessionId);
+    if (!fixture) {
+      throw new Error(`Session ${sessionId} not found. Imported sessions are only kept until the page is reloaded.`);
+    }
+    return fixture;
+  };
+
+  return {
+    kind: 'local',
+    getSession: async (sessionId) => getFixture(sessionId),
+    getLapChannel: async (sessionId, lap, channel) => getFixture(sessionId).channelData?.[lap]?.[channel] ?? [],
+  };
+};
+
+// Sessions imported in the browser, served without any server involved
+const localSessions = new Map<string, SessionFixture>();
+const localDataSource = createLocalDataSource(localSessions);
+
+// Prefix of the IDs given to imported sessions
+export const LOCAL_SESSION_PREFIX = 'local-';
+
+/**
+ * Registers an imported session so it can be opened like any other session.
+ * @param fixture The session payload and its channel data.
+ * @returns The ID to open the session with.
+ */
+export const registerLocalSession = (fixture: SessionFixture): string => {
+  const sessionId = `${LOCAL_SESSION_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+  localSessions.set(sessionId, { ...fixture, shareId: sessionId });
+  return sessionId;
+};
+
+// Resolve the configured source: a `?source=` URL parameter wins over VITE_SESSION_SOURCE
+const resolveSourceKind = (): SessionSourceKind => {
+  const fromUrl = typeof window !== 'undefined'
+    ? new URLSearchParams(window.location.search).get('source')
+    : null;
+  const requested = fromUrl || import.meta.env.VITE_SESSION_SOURCE;
+  if (requested === 'fixture' || requested === 'http') {
+    return requested;
+  }
+  if (requested) {
+    console.warn(`Unknown session source "${requested}", falling back to http.`);
+  }
+  return 'http';
+};
+
+const createDataSource = (kind: SessionSourceKind): SessionDataSource =>
+  kind === 'fixture'
+    ? createFixtureDataSource(import.meta.env.VITE_FIXTURE_BASE_URL || DEFAULT_FIXTURE_BASE_URL)
+    : createHttpDataSource(import.meta.env.VITE_SESSION_API_URL || DEFAULT_API_URL);
+
+// Resolved at module load so the `?source=` parameter is read before client-side navigation drops it
+let activeDataSource: SessionDataSource = createDataSource(resolveSourceKind());
+
+/**
+ * Returns the data source serving a session: imported sessions are served locally,
+ * everything else by the configured source.
+ * @param sessionId The session ID being requested.
+ */
+export const getSessionDataSource = (sessionId: string): SessionDataSource =>
+  sessionId.startsWith(LOCAL_SESSION_PREFIX) ? localDataSource : activeDataSource;
+
+/**
+ * Replaces the configured data source used by the session API.
+ * @param source The data source to use for all subsequent requests.
+ */
+export const setSessionDataSource = (source: SessionDataSource): void => {
+  activeDataSource = source;
+};
@@ -0,0 +1,136 @@
+// src/api/sessionValidation.ts
+import type { SessionData, SessionEvent } from './sessionApi';
+import { parseTimeSpan } from '../utils/time';
+
+// Maximum number of issues spelled out in the error message
+const MAX_REPORTED_ISSUES = 3;
+
+/**
+ * Thrown when a session payload does not match the expected SessionData shape.
+ * `issues` lists every problem found, each prefixed with the offending field path.
+ */
+export class SessionValidationError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+    const remaining = issues.length - MAX_REPORTED_ISSUES;
+    super(`Invalid session data: ${shown}${remaining > 0 ? ` (and ${remaining} more)` : ''}`);
+    this.name = 'SessionValidationError';
+    this.issues = issues;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Validates a single timing event, returning null for event types the dashboard does not use
+const validateEvent = (raw: unknown, path: string, issues: string[]): SessionEvent | null => {
+  if (!isRecord(raw)) {
+    issues.push(`${path} must be an object`);
+    return null;
+  }
+  if (raw.type !== 'lap' && raw.type !== 'sector') {
+    console.warn(`Ignoring session event with unsupported type at ${path}:`, raw.type);
+    return null;
+  }
+
+  const issueCount = issues.length;
+  if (!isFiniteNumber(raw.lap) || !Number.isInteger(raw.lap) || raw.lap < 1) {
+    issues.push(`${path}.lap must be a positive integer`);
+  }
+  if (!isFiniteNumber(raw.sector) || !Number.isInteger(raw.sector) || raw.sector < 0) {
+    issues.push(`${path}.sector must be a non-negative integer`);
+  }
+  if (typeof raw.time !== 'string' || parseTimeSpan(raw.time) === null) {
+    issues.push(`${path}.time must be a time span ("HH:MM:SS.fff")`);
+  }
+  if (!isFiniteNumber(raw.startSecond)) {
+    issues.push(`${path}.startSecond must be a number`);
+  }
+  if (!isFiniteNumber(raw.seconds)) {
+    issues.push(`${path}.seconds must be a number`);
+  }
+  if (typeof raw.timestamp !== 'string' || Number.isNaN(Date.parse(raw.timestamp))) {
+    issues.push(`${path}.timestamp must be an ISO date string`);
+  }
+
+  return issues.length === issueCount ? (raw as unknown as SessionEvent) : null;
+};
+
+const checkNullableString = (data: UnknownRecord, key: string, issues: string[]) => {
+  const value = data[key];
+  if (value !== null && value !== undefined && typeof value !== 'string') {
+    issues.push(`${key} must be a string or null`);
+  }
+};
+
+const checkNullableNumber = (data: UnknownRecord, key: string, issues: string[]) => {
+  const value = data[key];
+  if (value !== null && value !== undefined && !isFiniteNumber(value)) {
+    issues.push(`${key} must be a number or null`);
+  }
+};
+
+const checkNullableObject = (data: UnknownRecord, key: string, issues: string[]) => {
+  const value = data[key];
+  if (value !== null && value !== undefined && !isRecord(value)) {
+    issues.push(`${key} must be an object or null`);
+  }
+};
+
+/**
+ * Validates an untrusted session payload at runtime.
+ * Events with types other than 'lap' and 'sector' are dropped.
+ * @param payload The parsed JSON payload.
+ * @returns The payload typed as SessionData.
+ * @throws A SessionValidationError describing every malformed field.
+ */
+export const validateSessionData = (payload: unknown): SessionData => {
+  if (!isRecord(payload)) {
+    throw new SessionValidationError(['payload must be a JSON object']);
+  }
+
+  const issues: string[] = [];
+
+  if (typeof payload.shareId !== 'string') {
+    issues.push('shareId must be a string');
+  }
+
+  if (!Array.isArray(payload.channels)) {
+    issues.push('channels must be an array');
+  } else {
+    payload.channels.forEach((channel, index) => {
+      if (typeof channel !== 'string') {
+        issues.push(`channels[${index}] must be a string`);
+      }
+    });
+  }
+
+  const events: SessionEvent[] = [];
+  if (!Array.isArray(payload.events)) {
+    issues.push('events must be an array');
+  } else {
+    payload.events.forEach((raw, index) => {
+      const event = validateEvent(raw, `events[${index}]`, issues);
+      if (event) events.push(event);
+    });
+  }
+
+  ['start', 'end', 'best', 'rolling', 'theorical', 'video', 'sync', 'description'].forEach(key =>
+    checkNullableString(payload, key, issues)
+  );
+  ['duration', 'views'].forEach(key => checkNullableNumber(payload, key, issues));
+  ['driver', 'circuit', 'weather'].forEach(key => checkNullableObject(payload, key, issues));
+
+  if (issues.length > 0) {
+    throw new SessionValidationError(issues);
+  }
+
+  return { ...payload, events } as unknown as SessionData;
+};
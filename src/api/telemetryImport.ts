@@ -0,0 +1,269 @@
+// src/api/telemetryImport.ts
+import type { ChannelDataPoint, LapEvent, SessionData } from './sessionApi';
+import type { SessionFixture } from './sessionDataSource';
+import { parseCsv } from '../utils/csv';
+import { formatTimeSpan } from '../utils/time';
+
+// Datalogger exports the importer recognises; anything else is parsed as generic CSV
+export type TelemetryFormat = 'aim' | 'racechrono' | 'alfano' | 'generic';
+
+/**
+ * Thrown when a telemetry file cannot be turned into a session.
+ */
+export class TelemetryImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TelemetryImportError';
+  }
+}
+
+// Column headers that hold the sample time
+const TIME_COLUMN_PATTERN = /^(time|timestamp|session time|elapsed time|temps)$/i;
+// Column headers that hold the lap number
+const LAP_COLUMN_PATTERN = /^(lap|lap ?#|lap ?number|lap ?nr\.?|lap ?no\.?|tour)$/i;
+// Column headers that hold a beacon (start/finish line) signal
+const BEACON_COLUMN_PATTERN = /beacon/i;
+
+// Maps datalogger channel names to the names LapViz sessions use, so the map and
+// distance features find the channels they need
+const CHANNEL_ALIASES: Record<string, string> = {
+  'lat': 'Latitude',
+  'gps latitude': 'Latitude',
+  'latitude': 'Latitude',
+  'lon': 'Longitude',
+  'long': 'Longitude',
+  'lng': 'Longitude',
+  'gps longitude': 'Longitude',
+  'longitude': 'Longitude',
+  'speed gps': 'GPS Speed',
+  'gps speed': 'GPS Speed',
+  'gps_speed': 'GPS Speed',
+  'engine rpm': 'RPM',
+  'rpm': 'RPM',
+  'distance': 'Distance',
+  'distance on gps speed': 'Distance',
+  'gps altitude': 'Altitude',
+  'altitude': 'Altitude',
+  'gps heading': 'Heading',
+  'bearing': 'Heading',
+  'heading': 'Heading',
+};
+
+interface ParsedHeader {
+  name: string;       // Channel name without its unit
+  unit: string | null;
+}
+
+// Splits "Speed (km/h)" or "Speed [km/h]" into name and unit
+const parseHeader = (header: string): ParsedHeader => {
+  const match = /^(.*?)\s*[([]([^)\]]*)[)\]]\s*$/.exec(header);
+  const name = (match ? match[1] : header).trim();
+  const unit = match ? match[2].trim() || null : null;
+  return { name: CHANNEL_ALIASES[name.toLowerCase()] ?? name, unit };
+};
+
+// Parses a numeric cell, accepting decimal commas
+const parseNumber = (cell: string | undefined): number => {
+  if (cell === undefined || cell.trim() === '') return NaN;
+  const value = Number(cell);
+  if (!Number.isNaN(value)) return value;
+  return /^-?\d+,\d+$/.test(cell) ? Number(cell.replace(',', '.')) : NaN;
+};
+
+const detectFormat = (metadata: Map<string, string[]>, headers: string[]): TelemetryFormat => {
+  const format = metadata.get('format')?.join(' ').toLowerCase() ?? '';
+  if (format.includes('aim') || metadata.has('beacon markers')) return 'aim';
+  if ([...metadata.keys()].some(key => key.includes('racechrono'))) return 'racechrono';
+  if (headers.some(header => /^(lap ?#|fragment ?#)/i.test(header))) return 'racechrono';
+  if ([...metadata.keys()].some(key => key.includes('alfano'))) return 'alfano';
+  return 'generic';
+};
+
+// Finds the lap boundaries (times at which a new lap starts) from a beacon or lap column
+const lapBoundariesFromColumn = (times: number[], values: number[], isBeacon: boolean): number[] => {
+  const boundaries: number[] = [];
+  // Last non-empty value seen; rows before the first crossing often leave the column empty
+  let previous = values[0];
+  for (let i = 1; i < values.length; i++) {
+    const current = values[i];
+    if (Number.isNaN(current)) continue;
+    const crossed = isBeacon
+      ? current !== 0 && (previous === 0 || Number.isNaN(previous))
+      : current !== previous;
+    if (crossed) boundaries.push(times[i]);
+    previous = current;
+  }
+  return boundaries;
+};
+
+// The header row names a time column and is followed, after at most a few unit rows,
+// by a data row of the same width with a numeric time
+const isHeaderRow = (rows: string[][], index: number): boolean => {
+  const row = rows[index];
+  const timeIndex = row.findIndex(cell => TIME_COLUMN_PATTERN.test(parseHeader(cell).name));
+  if (timeIndex === -1 || row.length < 2) return false;
+  return rows
+    .slice(index + 1, index + 6)
+    .some(next => next.length === row.length && !Number.isNaN(parseNumber(next[timeIndex])));
+};
+
+const metadataValue = (metadata: Map<string, string[]>, ...keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = metadata.get(key)?.find(cell => cell !== '');
+    if (value) return value;
+  }
+  return null;
+};
+
+/**
+ * Parses a datalogger CSV export (AiM RaceStudio, RaceChrono, Alfano or a plain
+ * time-indexed CSV) into a session with per-lap channel data.
+ * Laps are split on the AiM "Beacon Markers" metadata, a beacon column or a lap column;
+ * files without any of these become a single lap.
+ * @param text The CSV file contents.
+ * @param fileName The file name, used for logging.
+ * @param fileDate Used as the session start when the file carries no date.
+ * @returns The imported session, ready for `registerLocalSession`.
+ * @throws A TelemetryImportError if the file has no usable time column or data.
+ */
+export const parseTelemetryCsv = (text: string, fileName: string, fileDate: Date = new Date()): SessionFixture => {
+  const rows = parseCsv(text);
+
+  // Everything above the header row is "key, value..." metadata
+  const headerIndex = rows.findIndex((_, index) => isHeaderRow(rows, index));
+  if (headerIndex === -1) {
+    throw new TelemetryImportError('No time column found. Expected a column named "Time" or "Timestamp".');
+  }
+  const metadata = new Map<string, string[]>();
+  rows.slice(0, headerIndex).forEach(row => {
+    if (row[0]) metadata.set(row[0].toLowerCase(), row.slice(1));
+  });
+
+  const headers = rows[headerIndex];
+  const parsedHeaders = headers.map(parseHeader);
+  const format = detectFormat(metadata, headers);
+  const timeIndex = parsedHeaders.findIndex(header => TIME_COLUMN_PATTERN.test(header.name));
+  const timeScale = parsedHeaders[timeIndex].unit?.toLowerCase() === 'ms' ? 0.001 : 1;
+  const lapIndex = headers.findIndex(header => LAP_COLUMN_PATTERN.test(parseHeader(header).name));
+  const beaconIndex = headers.findIndex(header => BEACON_COLUMN_PATTERN.test(header));
+
+  // Unit rows (AiM, RaceChrono) and blank lines have no numeric time and are skipped
+  const dataRows = rows
+    .slice(headerIndex + 1)
+    .filter(row => !Number.isNaN(parseNumber(row[timeIndex])));
+  if (dataRows.length < 2) {
+    throw new TelemetryImportError('The file contains no telemetry samples.');
+  }
+
+  const firstTime = parseNumber(dataRows[0][timeIndex]) * timeScale;
+  const times = dataRows.map(row => parseNumber(row[timeIndex]) * timeScale - firstTime);
+
+  // Channels are all remaining columns that carry at least one number
+  const skipped = new Set([timeIndex, lapIndex, beaconIndex]);
+  const channelColumns = parsedHeaders
+    .map((header, index) => ({ ...header, index }))
+    .filter(({ index, name }) =>
+      !skipped.has(index) && name !== '' && dataRows.some(row => !Number.isNaN(parseNumber(row[index])))
+    );
+  if (channelColumns.length === 0) {
+    throw new TelemetryImportError('The file contains no numeric channels.');
+  }
+
+  // Lap start times, relative to the first sample
+  let boundaries: number[] = [];
+  const beaconMarkers = metadata.get('beacon markers');
+  if (beaconMarkers && beaconMarkers.some(cell => cell !== '')) {
+    // AiM lists the session times at which the beacon was crossed
+    boundaries = beaconMarkers
+      .flatMap(cell => cell.split(/\s+/))
+      .map(parseNumber)
+      .filter(value => !Number.isNaN(value))
+      .map(value => value - firstTime);
+  } else if (beaconIndex !== -1) {
+    boundaries = lapBoundariesFromColumn(times, dataRows.map(row => parseNumber(row[beaconIndex])), true);
+  } else if (lapIndex !== -1) {
+    boundaries = lapBoundariesFromColumn(times, dataRows.map(row => parseNumber(row[lapIndex])), false);
+  }
+  const sessionEnd = times[times.length - 1];
+  const lapStarts = [0, ...boundaries.filter(time => time > 0 && time < sessionEnd)].sort((a, b) => a - b);
+
+  const sessionStartMs = (() => {
+    const date = metadataValue(metadata, 'date', 'session date');
+    const time = metadataValue(metadata, 'time', 'session time');
+    const parsed = date ? Date.parse(time ? `${date} ${time}` : date) : NaN;
+    return Number.isNaN(parsed) ? fileDate.getTime() : parsed;
+  })();
+
+  // Build per-lap channel data with times relative to each lap's start
+  const channelData: Record<string, Record<string, ChannelDataPoint[]>> = {};
+  const events: LapEvent[] = [];
+  const lapDurations: number[] = [];
+  lapStarts.forEach((lapStart, lapIndexInSession) => {
+    const lap = lapIndexInSession + 1;
+    const lapEnd = lapStarts[lapIndexInSession + 1] ?? sessionEnd;
+    const lapChannels: Record<string, ChannelDataPoint[]> = {};
+    channelColumns.forEach(({ name }) => { lapChannels[name] = []; });
+
+    dataRows.forEach((row, rowIndex) => {
+      const time = times[rowIndex];
+      const isLast = lapIndexInSession === lapStarts.length - 1;
+      if (time < lapStart || (isLast ? time > lapEnd : time >= lapEnd)) return;
+      channelColumns.forEach(({ name, index }) => {
+        const value = parseNumber(row[index]);
+        if (!Number.isNaN(value)) lapChannels[name].push({ s: time - lapStart, d: value });
+      });
+    });
+
+    channelData[lap] = lapChannels;
+    lapDurations.push(lapEnd - lapStart);
+    events.push({
+      type: 'lap',
+      lap,
+      sector: 0,
+      seconds: 0,
+      startSecond: lapStart,
+      time: formatTimeSpan(lapEnd - lapStart),
+      timestamp: new Date(sessionStartMs + lapEnd * 1000).toISOString(),
+    });
+  });
+
+  // The first and last laps are usually out and in laps, so only complete laps count as best
+  const timedLaps = lapDurations.length > 2 ? lapDurations.slice(1, -1) : lapDurations;
+  const bestLapTime = timedLaps.length > 0 ? Math.min(...timedLaps) : null;
+
+  const venue = metadataValue(metadata, 'session', 'track', 'track name', 'circuit');
+  const driver = metadataValue(metadata, 'racer', 'driver', 'driver name', 'pilot');
+
+  const session: SessionData = {
+    shareId: '',
+    session: null,
+    driver: driver
+      ? { compositeId: null, displayName: driver, teamName: null, avatarUrl: null, licenseCountry: null, number: null, category: null }
+      : null,
+    circuit: venue
+      ? {
+          id: null, venue, track: null, code: null, countryCode: null, imageUrl: null,
+          location: null, latitude: null, longitude: null, zoom: null, test: false, lastActivity: null
+        }
+      : null,
+    group: null,
+    selected: false,
+    views: null,
+    start: new Date(sessionStartMs).toISOString(),
+    end: new Date(sessionStartMs + sessionEnd * 1000).toISOString(),
+    duration: null,
+    best: bestLapTime !== null ? formatTimeSpan(bestLapTime) : null,
+    rolling: null,
+    theorical: null,
+    description: null,
+    events,
+    channels: channelColumns.map(({ name }) => name),
+    weather: null,
+    video: null,
+    sync: null,
+    transferToken: null,
+  };
+
+  console.log(`Imported ${format} telemetry from ${fileName}: ${events.length} laps, ${channelColumns.length} channels`);
+  return { ...session, channelData };
+};
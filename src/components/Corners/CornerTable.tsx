@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { Corner, CornerMetrics } from '../../utils/corners';
+import { getChannelUnit } from '../../utils/channelUnits';
+
+interface CornerTableProps {
+  corners: Corner[];
+  metricsByLap: Record<number, CornerMetrics[]>;
+  laps: number[];
+  referenceLap: number | null;  // Lap the corners were detected on
+  speedChannel: string | null;
+  selectedLap: number | null;
+  onLapSelect: (lap: number) => void;
+  isLoading: boolean;
+  error: string | null;
+}
+
+type CornerMetricKey = 'minSpeed' | 'entrySpeed' | 'exitSpeed' | 'duration' | 'brakeDistance';
+
+// Metrics the table can compare; speeds are best when highest, time spent when lowest,
+// braking points when latest
+const METRICS: Record<CornerMetricKey, { label: string; higherIsBetter: boolean }> = {
+  minSpeed: { label: 'Minimum speed', higherIsBetter: true },
+  entrySpeed: { label: 'Entry speed', higherIsBetter: true },
+  exitSpeed: { label: 'Exit speed', higherIsBetter: true },
+  duration: { label: 'Time in corner', higherIsBetter: false },
+  brakeDistance: { label: 'Braking point', higherIsBetter: true },
+};
+
+// Braking this much earlier than the reference lap is flagged
+const EARLY_BRAKING_METERS = 5;
+
+const CornerTable: React.FC<CornerTableProps> = ({
+  corners,
+  metricsByLap,
+  laps,
+  referenceLap,
+  speedChannel,
+  selectedLap,
+  onLapSelect,
+  isLoading,
+  error
+}) => {
+  const [metric, setMetric] = useState<CornerMetricKey>('minSpeed');
+
+  if (!isLoading && !error && corners.length === 0) {
+    return null;
+  }
+
+  const { higherIsBetter } = METRICS[metric];
+  const isBraking = metric === 'brakeDistance';
+  const unit = metric === 'duration' ? 's' : isBraking ? 'm' : (speedChannel && getChannelUnit(speedChannel)) ?? '';
+
+  const getValue = (lap: number, corner: Corner): number =>
+    metricsByLap[lap]?.find(entry => entry.corner === corner.number)?.[metric] ?? NaN;
+
+  // Best value of a corner across the laps measured so far
+  const getBest = (corner: Corner): number => {
+    const values = laps.map(lap => getValue(lap, corner)).filter(value => Number.isFinite(value));
+    if (values.length === 0) return NaN;
+    return higherIsBetter ? Math.max(...values) : Math.min(...values);
+  };
+
+  const formatValue = (value: number) =>
+    Number.isFinite(value) ? value.toFixed(metric === 'duration' ? 3 : isBraking ? 0 : 1) : '-';
+
+  // Braking points of other laps read as metres early or late against the reference lap
+  const formatBraking = (lap: number, corner: Corner, value: number) => {
+    const reference = referenceLap !== null ? getValue(referenceLap, corner) : NaN;
+    if (lap === referenceLap || !Number.isFinite(value) || !Number.isFinite(reference)) {
+      return { text: formatValue(value), isEarly: false };
+    }
+    const early = reference - value;
+    return {
+      text: `${Math.abs(early).toFixed(0)} ${early >= 0 ? 'early' : 'late'}`,
+      isEarly: early > EARLY_BRAKING_METERS,
+    };
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Corners</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="corner-metric" className="text-gray-700">Compare</label>
+          <select
+            id="corner-metric"
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as CornerMetricKey)}
+            className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(Object.keys(METRICS) as CornerMetricKey[]).map(key => (
+              <option key={key} value={key}>{METRICS[key].label}</option>
+            ))}
+          </select>
+          {unit && <span className="text-gray-500">({unit})</span>}
+        </div>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-2">Corner analysis failed: {error}</p>}
+      {isLoading && corners.length === 0 && <p className="text-gray-500 text-sm">Detecting corners...</p>}
+
+      {corners.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Corner</th>
+                {laps.map(lap => (
+                  <th key={lap} className={`px-3 py-2 text-right font-medium ${lap === selectedLap ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}>
+                    <button type="button" onClick={() => onLapSelect(lap)} className="hover:text-blue-600">
+                      Lap {lap}
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {corners.map(corner => {
+                const best = getBest(corner);
+                return (
+                  <tr key={corner.number} className="border-b border-gray-100">
+                    <td className="px-3 py-2 font-medium whitespace-nowrap">
+                      <span className="inline-flex items-center gap-1">
+                        T{corner.number}
+                        {corner.direction === 'left' && <ArrowLeft className="w-3 h-3 text-gray-400" />}
+                        {corner.direction === 'right' && <ArrowRight className="w-3 h-3 text-gray-400" />}
+                      </span>
+                    </td>
+                    {laps.map(lap => {
+                      const value = getValue(lap, corner);
+                      const isBest = Number.isFinite(value) && value === best;
+                      const { text, isEarly } = isBraking ? formatBraking(lap, corner, value) : { text: formatValue(value), isEarly: false };
+                      return (
+                        <td key={lap} className={`px-3 py-2 text-right font-mono whitespace-nowrap ${lap === selectedLap ? 'bg-blue-50' : ''}`}>
+                          <span className={`px-1 rounded ${isBest ? 'bg-purple-100 text-purple-800 font-semibold' : isEarly ? 'text-red-600' : ''}`}>
+                            {text}
+                          </span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {corners.length > 0 && (
+        <p className="mt-3 text-xs text-gray-500">
+          Corners are detected on lap {referenceLap}.
+          {isBraking && ` Braking points are the distance into lap ${referenceLap} and, for other laps, how far earlier or later they braked; more than ${EARLY_BRAKING_METERS}m early is red.`}
+          {!speedChannel && ' No speed channel is available, so only the corners are listed.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CornerTable;
\ No newline at end of file
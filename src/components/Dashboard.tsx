@@ -3,36 +3,23 @@ import { useParams } from 'react-router-dom';
 import DataVisualization from './DataVisualization/DataVisualization';
 import VideoPlayer from './VideoPlayer/VideoPlayer';
 import MapComponent from './Map/MapComponent';
+import LapTable from './LapTable/LapTable';
+import CornerTable from './Corners/CornerTable';
+import GGDiagram from './GGDiagram/GGDiagram';
+import ScatterPlot from './ScatterPlot/ScatterPlot';
+import Histogram from './Histogram/Histogram';
+import GpsQualityPanel from './GpsQuality/GpsQualityPanel';
+import SessionHeader from './SessionHeader/SessionHeader';
 import LoadingSpinner from './common/LoadingSpinner';
 import { useSessionData } from '../hooks/useSessionData';
-import { SessionData } from '../api/sessionApi'; // Added for explicit typing
+import { useMathChannels } from '../hooks/useMathChannels';
+import { useCornerAnalysis } from '../hooks/useCornerAnalysis';
+import { useGpsQuality } from '../hooks/useGpsQuality';
 import { SyncProvider, useSyncContext } from '../contexts/SyncContext';
-
-// Helper function to convert time format "HH:MM:SS.sss" to seconds
-const convertSyncTimeToSeconds = (syncTime: string | null | undefined): number => {
-  if (!syncTime) return 0;
-  try {
-    const timeParts = syncTime.split(':');
-    const hours = parseInt(timeParts[0], 10);
-    const minutes = parseInt(timeParts[1], 10);
-    const secondsPart = timeParts[2].split('.');
-    const seconds = parseInt(secondsPart[0], 10);
-    const milliseconds = secondsPart[1] ? parseInt(secondsPart[1].substring(0, 3), 10) / 1000 : 0;
-    return hours * 3600 + minutes * 60 + seconds + milliseconds;
-  } catch (error) {
-    console.error("Error parsing sync time:", error);
-    return 0;
-  }
-};
-
-// Helper function to get lap options
-const getLapOptions = (events: SessionData['events'] | undefined): number[] => {
-  if (!events) return [];
-  const lapEvents = events.filter(event => event.type === 'lap');
-  if (lapEvents.length === 0) return [];
-  const maxLap = Math.max(...lapEvents.map(event => event.lap || 0));
-  return Array.from({ length: maxLap }, (_, i) => i + 1);
-};
+import { buildLapTimeline, findFastestLap } from '../utils/lapTimeline';
+import { parseTimeSpan } from '../utils/time';
+import { LapTimeRange } from '../utils/scatter';
+import { DEFAULT_GPS_QUALITY_THRESHOLDS, GpsQualityThresholds, isLapGpsFlagged } from '../utils/gpsQuality';
 
 // interface DashboardParams {
 //   sessionId?: string;
@@ -43,19 +30,52 @@ const DashboardContent: React.FC = () => {
   // Use a type assertion for useParams
   const params = useParams<{ sessionId?: string }>(); // Changed to inline type
   const sessionId = params.sessionId || 'd372cc';
-  const { data: sessionData, isLoading, error } = useSessionData(sessionId);
+  const { data: sessionData, isLoading, error, validationIssues } = useSessionData(sessionId);
   const { setLapStartVideoTime } = useSyncContext(); // Get setter from context
 
-  // Derive channels, videoUrl, and lapOptions from the hook's data
-  const channels = sessionData?.channels || [];
+  const { definitions: mathChannels, saveDefinitions: saveMathChannels } = useMathChannels(sessionId, sessionData);
+
+  // Derive channels (native then math channels), videoUrl, and the lap timeline from the hook's data
+  const channels = useMemo(
+    () => [...(sessionData?.channels || []), ...mathChannels.map(definition => definition.name)],
+    [sessionData?.channels, mathChannels]
+  );
   const videoUrl = sessionData?.video || null;
-  const lapOptions = getLapOptions(sessionData?.events);
+  const lapTimeline = useMemo(() => buildLapTimeline(sessionData?.events), [sessionData?.events]);
+  const lapOptions = lapTimeline.lapNumbers;
+
+  // GPS quality of every lap; laps with poor GPS can be kept out of best-lap comparisons
+  const [gpsThresholds, setGpsThresholds] = useState<GpsQualityThresholds>(DEFAULT_GPS_QUALITY_THRESHOLDS);
+  const [excludeGpsFlaggedLaps, setExcludeGpsFlaggedLaps] = useState<boolean>(false);
+  const gpsQuality = useGpsQuality(sessionId, lapOptions, channels, gpsThresholds);
+  const lapScores = useMemo(
+    () => Object.fromEntries(Object.entries(gpsQuality.qualityByLap).map(([lap, quality]) => [lap, quality.score])),
+    [gpsQuality.qualityByLap]
+  );
+  const excludedLaps = useMemo(
+    () => (excludeGpsFlaggedLaps
+      ? lapOptions.filter(lap => gpsQuality.qualityByLap[lap] && isLapGpsFlagged(gpsQuality.qualityByLap[lap], gpsThresholds))
+      : []),
+    [excludeGpsFlaggedLaps, lapOptions, gpsQuality.qualityByLap, gpsThresholds]
+  );
+  const fastestLap = useMemo(
+    () => findFastestLap(lapTimeline, sessionData?.best, excludedLaps),
+    [lapTimeline, sessionData?.best, excludedLaps]
+  );
 
   // Shared state for selected lap
   const [selectedLap, setSelectedLap] = useState<number | null>(null);
   const [videoSeekToTime, setVideoSeekToTime] = useState<number>(0);
   const [videoEndTime, setVideoEndTime] = useState<number | null>(null);
   const [shouldAutoplayVideo, setShouldAutoplayVideo] = useState<boolean>(false);
+  // Stretches of track picked out by the scatter plot's lasso
+  const [scatterSelection, setScatterSelection] = useState<LapTimeRange[]>([]);
+  // Channel the map colours its line by, prefetched for every lap with the chart's channels
+  const [mapColorChannel, setMapColorChannel] = useState<string | null>(null);
+
+  // Corners are detected once on the fastest lap and measured on every lap
+  const cornerLap = fastestLap ?? selectedLap;
+  const cornerAnalysis = useCornerAnalysis(sessionId, cornerLap, lapOptions, channels);
 
   // Initialize selected lap when options are available
   useEffect(() => {
@@ -74,55 +94,24 @@ const DashboardContent: React.FC = () => {
       return;
     }
 
-    const baseSyncInSeconds = convertSyncTimeToSeconds(sessionData.sync);
+    const baseSyncInSeconds = parseTimeSpan(sessionData.sync) ?? 0;
     let currentLapStartVideoTime = baseSyncInSeconds; // Default to base sync time
+    const lapTiming = selectedLap !== null ? lapTimeline.getLap(selectedLap) : undefined;
 
-    if (selectedLap === 1) {
-      // For first lap
-      const nextLapEvent = sessionData.events?.find(
-        event => event.type === 'lap' && event.lap === 2
-      );
-      setVideoSeekToTime(baseSyncInSeconds);
-      // If there is a next lap, set end time to its start time
-      setVideoEndTime(nextLapEvent && typeof nextLapEvent.startSecond === 'number' 
-        ? baseSyncInSeconds + nextLapEvent.startSecond 
-        : null);
-      setShouldAutoplayVideo(false); // No autoplay for lap 1
-      currentLapStartVideoTime = baseSyncInSeconds;
-    } else if (selectedLap && selectedLap > 1 && sessionData.events) {
-      // For other laps
-      const currentLapEvent = sessionData.events.find(
-        event => event.type === 'lap' && event.lap === selectedLap
-      );
-      const nextLapEvent = sessionData.events.find(
-        event => event.type === 'lap' && event.lap === selectedLap + 1
-      );
-      
-      if (currentLapEvent && typeof currentLapEvent.startSecond === 'number') {
-        // Set start time to current lap's start
-        const lapStartOffset = currentLapEvent.startSecond;
-        setVideoSeekToTime(baseSyncInSeconds + lapStartOffset);
-        
-        // Set end time to next lap's start if available, otherwise null (play to end)
-        setVideoEndTime(nextLapEvent && typeof nextLapEvent.startSecond === 'number'
-          ? baseSyncInSeconds + nextLapEvent.startSecond
-          : null);
-        currentLapStartVideoTime = baseSyncInSeconds + lapStartOffset; // Set lap start time for context
-      } else {
-        setVideoSeekToTime(baseSyncInSeconds);
-        setVideoEndTime(null);
-        currentLapStartVideoTime = baseSyncInSeconds;
-      }
-      setShouldAutoplayVideo(true); // Autoplay for laps > 1
+    if (lapTiming) {
+      // Play the selected lap from its start to its end
+      currentLapStartVideoTime = baseSyncInSeconds + lapTiming.start;
+      setVideoSeekToTime(currentLapStartVideoTime);
+      setVideoEndTime(baseSyncInSeconds + lapTiming.end);
+      setShouldAutoplayVideo(lapTiming.lap > 1); // No autoplay for lap 1
     } else {
       setVideoSeekToTime(baseSyncInSeconds);
       setVideoEndTime(null);
       setShouldAutoplayVideo(false); // Default to no autoplay
-      currentLapStartVideoTime = baseSyncInSeconds;
     }
     
     setLapStartVideoTime(currentLapStartVideoTime); // Update context
-  }, [selectedLap, sessionData, setLapStartVideoTime]);
+  }, [selectedLap, sessionData, lapTimeline, setLapStartVideoTime]);
 
   // Memoize circuitLocation to prevent unnecessary re-renders of MapComponent
   const circuitLocation = useMemo(() => {
@@ -158,11 +147,20 @@ const DashboardContent: React.FC = () => {
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
           <strong className="font-bold">Error:</strong>
           <span className="block sm:inline"> Failed to load dashboard data. {error}</span>
+          {validationIssues && validationIssues.length > 1 && (
+            <ul className="list-disc list-inside mt-2 text-sm">
+              {validationIssues.map(issue => (
+                <li key={issue}>{issue}</li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
 
       {!isLoading && !error && sessionData && (
         <div className="space-y-8">
+          <SessionHeader sessionData={sessionData} lapCount={lapOptions.length} />
+
           <div className="w-full">
             <DataVisualization 
               channels={channels} 
@@ -170,6 +168,16 @@ const DashboardContent: React.FC = () => {
               sessionId={sessionId}
               selectedLap={selectedLap}
               onLapChange={setSelectedLap}
+              sessionData={sessionData}
+              lapTimeline={lapTimeline}
+              mathChannels={mathChannels}
+              onMathChannelsChange={saveMathChannels}
+              corners={cornerAnalysis.corners}
+              cornerMetrics={selectedLap !== null ? cornerAnalysis.metricsByLap[selectedLap] : undefined}
+              drivingEvents={selectedLap !== null ? cornerAnalysis.eventsByLap[selectedLap] : undefined}
+              lapScores={lapScores}
+              excludedLaps={excludedLaps}
+              prefetchChannels={mapColorChannel ? [mapColorChannel] : []}
             />
           </div>
 
@@ -187,9 +195,72 @@ const DashboardContent: React.FC = () => {
                 sessionId={sessionId}
                 selectedLap={selectedLap}
                 circuitLocation={circuitLocation}
+                sessionStart={sessionData.start}
+                lapStartSecond={selectedLap !== null ? lapTimeline.getLap(selectedLap)?.start : null}
+                cornerMetrics={selectedLap !== null ? cornerAnalysis.metricsByLap[selectedLap] : undefined}
+                drivingEvents={selectedLap !== null ? cornerAnalysis.eventsByLap[selectedLap] : undefined}
+                gpsFlaggedRanges={selectedLap !== null ? gpsQuality.qualityByLap[selectedLap]?.flaggedRanges : undefined}
+                highlightRanges={scatterSelection}
+                channels={channels}
+                lapOptions={lapOptions}
+                fastestLap={fastestLap}
+                onColorChannelChange={setMapColorChannel}
               />
             </div>
           </div>
+
+          <LapTable
+            sessionData={sessionData}
+            lapTimeline={lapTimeline}
+            selectedLap={selectedLap}
+            onLapSelect={setSelectedLap}
+          />
+
+          <GpsQualityPanel
+            laps={lapOptions}
+            qualityByLap={gpsQuality.qualityByLap}
+            dopChannels={gpsQuality.dopChannels}
+            thresholds={gpsThresholds}
+            onThresholdsChange={setGpsThresholds}
+            excludeFlagged={excludeGpsFlaggedLaps}
+            onExcludeFlaggedChange={setExcludeGpsFlaggedLaps}
+            selectedLap={selectedLap}
+            onLapSelect={setSelectedLap}
+            isLoading={gpsQuality.isLoading}
+          />
+
+          <CornerTable
+            corners={cornerAnalysis.corners}
+            metricsByLap={cornerAnalysis.metricsByLap}
+            laps={lapOptions}
+            referenceLap={cornerLap}
+            speedChannel={cornerAnalysis.speedChannel}
+            selectedLap={selectedLap}
+            onLapSelect={setSelectedLap}
+            isLoading={cornerAnalysis.isLoading}
+            error={cornerAnalysis.error}
+          />
+
+          <GGDiagram
+            sessionId={sessionId}
+            selectedLap={selectedLap}
+            channels={channels}
+          />
+
+          <ScatterPlot
+            sessionId={sessionId}
+            channels={channels}
+            lapOptions={lapOptions}
+            selectedLap={selectedLap}
+            onSelectionChange={setScatterSelection}
+          />
+
+          <Histogram
+            sessionId={sessionId}
+            channels={channels}
+            lapOptions={lapOptions}
+            selectedLap={selectedLap}
+          />
         </div>
       )}
     </div>
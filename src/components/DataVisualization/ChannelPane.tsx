@@ -0,0 +1,193 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { CHART_HOVER_EVENT, XAxisMode } from './ChartComponent';
+import { useSyncContext } from '../../contexts/SyncContext';
+import { useLapChannels } from '../../hooks/useLapChannels';
+import { ChannelDataPoint } from '../../api/sessionApi';
+import { distanceAtTimes } from '../../utils/distance';
+import { interpolateAt } from '../../utils/resample';
+import { getChannelUnit } from '../../utils/channelUnits';
+import { SERIES_COLORS } from '../../utils/colors';
+
+// Same horizontal margins as the main channel chart so the panes line up
+const margin = { top: 10, right: 70, bottom: 24, left: 60 };
+const PANE_HEIGHT = 160;
+
+interface ChannelPaneProps {
+  sessionId: string;
+  lap: number | null;
+  channels: string[];
+  xAxisMode: XAxisMode;
+  lapDistance: ChannelDataPoint[];    // Needed to plot against distance
+  xDomain: [number, number] | null;   // Shared x range of all panes; null fits this pane's data
+}
+
+interface PanePoint {
+  x: number;
+  y: number;
+  time: number;
+}
+
+const formatTick = (value: number) => {
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(1)}k`;
+  return Math.abs(value) < 10 ? value.toFixed(1) : value.toFixed(0);
+};
+
+const ChannelPane: React.FC<ChannelPaneProps> = ({
+  sessionId,
+  lap,
+  channels,
+  xAxisMode,
+  lapDistance,
+  xDomain
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const { graphTime, isSyncActive } = useSyncContext();
+  const { data, isLoading, error } = useLapChannels(sessionId, lap, channels);
+
+  // Measure the pane on mount and window resize
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) setWidth(containerRef.current.getBoundingClientRect().width);
+    };
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  // Follow the hover cursor of every other chart, the map and the video
+  useEffect(() => {
+    const handleHover = (event: Event) => {
+      setHoverTime((event as CustomEvent<{ time: number | null }>).detail.time);
+    };
+    document.addEventListener(CHART_HOVER_EVENT, handleHover);
+    return () => document.removeEventListener(CHART_HOVER_EVENT, handleHover);
+  }, []);
+
+  const cursorTime = isSyncActive && graphTime !== null ? graphTime : hoverTime;
+
+  // Each channel's points on the pane's x-axis
+  const series = useMemo(() => channels.map(channel => {
+    const points = (data[channel] ?? []).filter(point => Number.isFinite(point.s) && Number.isFinite(point.d));
+    const xs = xAxisMode === 'distance' ? distanceAtTimes(lapDistance, points.map(point => point.s)) : points.map(point => point.s);
+    return points
+      .map((point, i): PanePoint => ({ x: xs[i], y: point.d, time: point.s }))
+      .filter(point => !Number.isNaN(point.x));
+  }), [channels, data, xAxisMode, lapDistance]);
+
+  const allPoints = series.flat();
+  const chartWidth = Math.max(0, width - margin.left - margin.right);
+  const chartHeight = PANE_HEIGHT - margin.top - margin.bottom;
+
+  let [minX, maxX] = xDomain ?? [Infinity, -Infinity];
+  let minY = Infinity;
+  let maxY = -Infinity;
+  allPoints.forEach(point => {
+    if (!xDomain) {
+      minX = Math.min(minX, point.x);
+      maxX = Math.max(maxX, point.x);
+    }
+    minY = Math.min(minY, point.y);
+    maxY = Math.max(maxY, point.y);
+  });
+  const xScale = (x: number) => ((x - minX) / ((maxX - minX) || 1)) * chartWidth;
+  const yScale = (y: number) => chartHeight - ((y - minY) / ((maxY - minY) || 1)) * chartHeight;
+
+  // Points outside the shared x range are left out so lines stay inside the pane
+  const linePath = (points: PanePoint[]) =>
+    points
+      .filter(point => point.x >= minX && point.x <= maxX)
+      .map((point, i) => `${i === 0 ? 'M' : 'L'}${xScale(point.x)} ${yScale(point.y)}`)
+      .join(' ');
+
+  // Cursor position and each channel's value at the cursor
+  const cursorX = cursorTime === null
+    ? null
+    : xAxisMode === 'distance' ? distanceAtTimes(lapDistance, [cursorTime])[0] : cursorTime;
+  const cursorValues = channels.map(channel =>
+    cursorTime === null ? NaN : interpolateAt(data[channel] ?? [], cursorTime)
+  );
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (allPoints.length === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const mouseX = event.clientX - rect.left - margin.left;
+    if (mouseX < 0 || mouseX > chartWidth) return;
+    const x = minX + (mouseX / (chartWidth || 1)) * (maxX - minX);
+    // The time of the nearest sample on the x-axis drives every other view
+    let nearest = allPoints[0];
+    allPoints.forEach(point => {
+      if (Math.abs(point.x - x) < Math.abs(nearest.x - x)) nearest = point;
+    });
+    document.dispatchEvent(new CustomEvent(CHART_HOVER_EVENT, {
+      detail: { time: nearest.time, userInitiated: true }
+    }));
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="h-full flex items-center justify-center"><LoadingSpinner size="small" /></div>;
+    }
+    if (error) {
+      return <div className="h-full flex items-center justify-center text-red-500 text-sm">Failed to fetch data. Please try again.</div>;
+    }
+    if (allPoints.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-500 text-sm">No data for these channels</div>;
+    }
+    return (
+      <svg width="100%" height={PANE_HEIGHT} onMouseMove={handleMouseMove}>
+        <g transform={`translate(${margin.left}, ${margin.top})`}>
+          <line x1="0" y1={chartHeight} x2={chartWidth} y2={chartHeight} stroke="#E5E7EB" strokeWidth="1" />
+          <line x1="0" y1="0" x2="0" y2={chartHeight} stroke="#E5E7EB" strokeWidth="1" />
+          {[minY, (minY + maxY) / 2, maxY].map((tick, i) => (
+            <text key={i} x="-10" y={yScale(tick)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6B7280">
+              {formatTick(tick)}
+            </text>
+          ))}
+          <text x="0" y={chartHeight + 16} textAnchor="start" fontSize="11" fill="#6B7280">
+            {formatTick(minX)}{xAxisMode === 'distance' ? 'm' : 's'}
+          </text>
+          <text x={chartWidth} y={chartHeight + 16} textAnchor="end" fontSize="11" fill="#6B7280">
+            {formatTick(maxX)}{xAxisMode === 'distance' ? 'm' : 's'}
+          </text>
+          {series.map((points, i) => (
+            <path
+              key={channels[i]}
+              d={linePath(points)}
+              fill="none"
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              strokeWidth="1.5"
+              strokeLinejoin="round"
+            />
+          ))}
+          {cursorX !== null && !Number.isNaN(cursorX) && cursorX >= minX && cursorX <= maxX && (
+            <line x1={xScale(cursorX)} y1="0" x2={xScale(cursorX)} y2={chartHeight} stroke="#6B7280" strokeWidth="1" strokeDasharray="4" />
+          )}
+        </g>
+      </svg>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs mb-1">
+        {channels.map((channel, i) => {
+          const unit = getChannelUnit(channel);
+          return (
+            <span key={channel} style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}>
+              {channel}
+              {!Number.isNaN(cursorValues[i]) && `: ${cursorValues[i].toFixed(2)}${unit ? ` ${unit}` : ''}`}
+            </span>
+          );
+        })}
+      </div>
+      <div ref={containerRef} style={{ height: PANE_HEIGHT }}>
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default ChannelPane;
\ No newline at end of file
@@ -8,11 +8,93 @@ export const CHART_HOVER_EVENT = 'chart-hover-time-change';
 // Define margin outside the component for stability
 const margin = { top: 20, right: 70, bottom: 40, left: 60 };
 
+// Quantity plotted on the x-axis: lap time in seconds or lap distance in metres
+export type XAxisMode = 'time' | 'distance';
+
+// Highlighted stretch of the x-axis, such as a corner
+export interface ShadedRange {
+  start: number; // In x-axis units (seconds or metres)
+  end: number;
+  label: string;
+}
+
+// Vertical line at a point of the x-axis, such as a braking point
+export interface ChartMarker {
+  position: number; // In x-axis units (seconds or metres)
+  color: string;
+  label: string;
+}
+
+// X-axis value of a point (seconds or metres, depending on the axis mode)
+const getXValue = (point: DataPoint) => parseFloat(point.label);
+
+// Lap time of a point in seconds, used to drive the map and video sync in every axis mode
+const getTimeValue = (point: DataPoint) => point.time ?? parseFloat(point.label);
+
+// Position of a point along the x-axis, for tooltips
+const formatPointPosition = (point: DataPoint, xAxisMode: XAxisMode) => {
+  if (xAxisMode === 'distance') {
+    return `${point.label}m, ${getTimeValue(point).toFixed(1)}s`;
+  }
+  return `${point.label}s`;
+};
+
+// Colours of the selected lap and the compared lap traces
+const PRIMARY_COLOR = '#3B82F6';
+const COMPARE_COLOR = '#F97316';
+// Unfiltered trace drawn behind a smoothed one
+const RAW_COLOR = '#CBD5E1';
+
+const hasCompareValue = (point: DataPoint) => point.compare !== undefined && !Number.isNaN(point.compare);
+const hasRawValue = (point: DataPoint) => point.raw !== undefined && !Number.isNaN(point.raw);
+
+// Y-axis extent covering the selected lap, the compared lap and any raw trace
+const getYExtent = (data: DataPoint[], yAxisKey: 'sales' | 'revenue' | 'units'): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  data.forEach(point => {
+    const values = [point[yAxisKey]];
+    if (hasCompareValue(point)) values.push(point.compare as number);
+    if (hasRawValue(point)) values.push(point.raw as number);
+    values.forEach(value => {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+  });
+  return [min, max];
+};
+
+// Tooltip rows comparing both laps at a point, or null when no lap is being compared
+const renderCompareValues = (
+  point: DataPoint,
+  yAxisKey: 'sales' | 'revenue' | 'units',
+  selectedLap: number | null,
+  compareLap: number | null,
+  formatValue: (value: number) => string
+) => {
+  if (compareLap === null || !hasCompareValue(point)) return null;
+  const value = point[yAxisKey];
+  const compareValue = point.compare as number;
+  const difference = value - compareValue;
+  const formattedDifference = Math.abs(difference) < 10 ? difference.toFixed(2) : formatValue(difference);
+  return (
+    <>
+      <div style={{ color: PRIMARY_COLOR }}>Lap {selectedLap}: {formatValue(value)}</div>
+      <div style={{ color: COMPARE_COLOR }}>Lap {compareLap}: {formatValue(compareValue)}</div>
+      <div>Difference: {difference >= 0 ? '+' : ''}{formattedDifference}</div>
+    </>
+  );
+};
+
 interface ChartComponentProps {
   data: DataPoint[];
   selectedLap: number | null;
   yAxisKey: 'sales' | 'revenue' | 'units';
   chartType: 'bar' | 'line';
+  xAxisMode?: XAxisMode;
+  compareLap?: number | null; // Lap whose values are overlaid from each point's `compare` field
+  shadedRanges?: ShadedRange[];
+  markers?: ChartMarker[];
 }
 
 interface TooltipState {
@@ -40,7 +122,11 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
   data, 
   selectedLap,
   yAxisKey,
-  chartType
+  chartType,
+  xAxisMode = 'time',
+  compareLap = null,
+  shadedRanges = [],
+  markers = []
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -80,29 +166,31 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
       const chartWidth = dimensions.width - margin.left - margin.right;
       const chartHeight = dimensions.height - margin.top - margin.bottom;
 
-      const minX = Math.min(...data.map(d => parseFloat(d.label)));
-      const maxX = Math.max(...data.map(d => parseFloat(d.label)));
+      const minX = Math.min(...data.map(getXValue));
+      const maxX = Math.max(...data.map(getXValue));
       const xRange = maxX - minX;
       const xScale = chartWidth / (xRange === 0 ? 1 : xRange);
 
-      const minY = Math.min(...data.map(d => d[yAxisKey]));
-      const maxY = Math.max(...data.map(d => d[yAxisKey]));
+      const [minY, maxY] = getYExtent(data, yAxisKey);
       const yRange = maxY - minY;
       const yScale = chartHeight / (yRange === 0 ? 1 : yRange);
 
-      // Find the data point whose time (label) is closest to graphTime
+      // Find the data point whose time is closest to graphTime
       let nearestDataPoint = data[0];
-      let smallestDiff = Math.abs(parseFloat(data[0].label) - graphTime);
+      let smallestDiff = Math.abs(getTimeValue(data[0]) - graphTime);
       for (let i = 1; i < data.length; i++) {
-        const diff = Math.abs(parseFloat(data[i].label) - graphTime);
+        const diff = Math.abs(getTimeValue(data[i]) - graphTime);
         if (diff < smallestDiff) {
           smallestDiff = diff;
           nearestDataPoint = data[i];
         }
       }
 
-      // Calculate X position based on graphTime, clamped to chart bounds
-      const currentGraphTimeX = Math.max(minX, Math.min(maxX, graphTime));
+      // Calculate X position based on graphTime, clamped to chart bounds.
+      // In distance mode the position follows the nearest point, as time does not map linearly to distance.
+      const currentGraphTimeX = xAxisMode === 'time'
+        ? Math.max(minX, Math.min(maxX, graphTime))
+        : getXValue(nearestDataPoint);
       const svgX = ((currentGraphTimeX - minX) * xScale);
       // Y position based on the Y value of the *nearest actual data point*
       const svgY = chartHeight - ((nearestDataPoint[yAxisKey] - minY) * yScale);
@@ -120,7 +208,9 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
         content: (
           <div>
             <div className="font-semibold">Time: {graphTime.toFixed(1)}s (Sync)</div>
-            <div>{yAxisKey}: {formatValue(nearestDataPoint[yAxisKey])} (at {nearestDataPoint.label}s)</div>
+            {renderCompareValues(nearestDataPoint, yAxisKey, selectedLap, compareLap, formatValue) ?? (
+              <div>{yAxisKey}: {formatValue(nearestDataPoint[yAxisKey])} (at {formatPointPosition(nearestDataPoint, xAxisMode)})</div>
+            )}
           </div>
         ),
       });
@@ -136,7 +226,38 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
         setTooltip(prev => ({...prev, visible: false}));
         // Potentially reset hoverPoint to what mouse would dictate or first point if mouse is off chart
     }
-  }, [isSyncActive, graphTime, data, dimensions, yAxisKey, margin]);
+  }, [isSyncActive, graphTime, data, dimensions, yAxisKey, xAxisMode, selectedLap, compareLap, margin]);
+
+  // Follow the cursor of the other chart panes, unless the mouse is over this chart
+  useEffect(() => {
+    const handleExternalHover = (event: Event) => {
+      const { time } = (event as CustomEvent<{ time: number | null }>).detail;
+      if (mouseOverChartRef.current || time === null || data.length === 0 || dimensions.width === 0) return;
+
+      const chartWidth = dimensions.width - margin.left - margin.right;
+      const chartHeight = dimensions.height - margin.top - margin.bottom;
+      const minX = Math.min(...data.map(getXValue));
+      const maxX = Math.max(...data.map(getXValue));
+      const xRange = maxX - minX;
+      const [minY, maxY] = getYExtent(data, yAxisKey);
+      const yRange = maxY - minY;
+
+      let nearestDataPoint = data[0];
+      data.forEach(point => {
+        if (Math.abs(getTimeValue(point) - time) < Math.abs(getTimeValue(nearestDataPoint) - time)) {
+          nearestDataPoint = point;
+        }
+      });
+
+      setHoverPoint({
+        x: (getXValue(nearestDataPoint) - minX) * (chartWidth / (xRange === 0 ? 1 : xRange)),
+        y: chartHeight - (nearestDataPoint[yAxisKey] - minY) * (chartHeight / (yRange === 0 ? 1 : yRange)),
+        dataPoint: nearestDataPoint,
+      });
+    };
+    document.addEventListener(CHART_HOVER_EVENT, handleExternalHover);
+    return () => document.removeEventListener(CHART_HOVER_EVENT, handleExternalHover);
+  }, [data, dimensions, yAxisKey]);
 
   // Set initial hover point or when data changes (only if not in sync mode)
   useEffect(() => {
@@ -165,17 +286,16 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
           
           const chartWidth = dimensions.width - margin.left - margin.right;
           const chartHeight = dimensions.height - margin.top - margin.bottom;
-          const minX = Math.min(...data.map(d => parseFloat(d.label)));
-          const maxX = Math.max(...data.map(d => parseFloat(d.label))); // Unused, but for completeness
+          const minX = Math.min(...data.map(getXValue));
+          const maxX = Math.max(...data.map(getXValue)); // Unused, but for completeness
           const xRange = maxX - minX;
           const xScaleEffect = chartWidth / (xRange === 0 ? 1 : xRange);
-          const minY = Math.min(...data.map(d => d[yAxisKey]));
-          const maxY = Math.max(...data.map(d => d[yAxisKey])); // Unused
+          const [minY, maxY] = getYExtent(data, yAxisKey);
           const yRange = maxY - minY;
           const yScaleEffect = chartHeight / (yRange === 0 ? 1 : yRange);
 
           const firstPoint = data[0];
-          const pointX = ((parseFloat(firstPoint.label) - minX) * xScaleEffect);
+          const pointX = ((getXValue(firstPoint) - minX) * xScaleEffect);
           const pointY = chartHeight - ((firstPoint[yAxisKey] - minY) * yScaleEffect);
           
           setHoverPoint({
@@ -184,7 +304,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
             dataPoint: firstPoint
           });
           
-          const firstPointTime = parseFloat(firstPoint.label);
+          const firstPointTime = getTimeValue(firstPoint);
           dispatchHoverTimeEvent(firstPointTime, false);
           lastDispatchedGraphTimeRef.current = firstPointTime;
           
@@ -246,17 +366,17 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
     const mouseDomainX = (svgMouseX / xScale) + minXValue;
     
     let nearestPoint = data[0];
-    let nearestDistance = Math.abs(parseFloat(nearestPoint.label) - mouseDomainX);
+    let nearestDistance = Math.abs(getXValue(nearestPoint) - mouseDomainX);
     
     data.forEach(point => {
-      const distance = Math.abs(parseFloat(point.label) - mouseDomainX);
+      const distance = Math.abs(getXValue(point) - mouseDomainX);
       if (distance < nearestDistance) {
         nearestDistance = distance;
         nearestPoint = point;
       }
     });
     
-    const pointX = ((parseFloat(nearestPoint.label) - minXValue) * xScale);
+    const pointX = ((getXValue(nearestPoint) - minXValue) * xScale);
     const pointY = height - ((nearestPoint[yAxisKey] - minYValue) * yScale);
     
     return {
@@ -279,8 +399,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
 
     // The rest of this function only executes if !isSyncActive. // MODIFICATION: Comment is no longer accurate
     if (nearest && nearest.dataPoint) {
-      const time = nearest.dataPoint.label;
-      const currentTime = parseFloat(time);
+      const currentTime = getTimeValue(nearest.dataPoint);
 
       // Dispatch hover time event (because !isSyncActive) // MODIFICATION: Dispatch always
       if (lastDispatchedGraphTimeRef.current === null || Math.abs(lastDispatchedGraphTimeRef.current - currentTime) > 0.05) {
@@ -300,8 +419,10 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
         y: nearest.y + margin.top,
         content: (
           <div>
-            <div className="font-semibold">Time: {time}s</div>
-            <div>{yAxisKey}: {formattedValue}</div>
+            <div className="font-semibold">{xAxisMode === 'distance' ? 'Distance' : 'Time'}: {formatPointPosition(nearest.dataPoint, xAxisMode)}</div>
+            {renderCompareValues(nearest.dataPoint, yAxisKey, selectedLap, compareLap, formatValue) ?? (
+              <div>{yAxisKey}: {formattedValue}</div>
+            )}
           </div>
         )
       });
@@ -325,12 +446,28 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
 
   const generateLinePath = () => {
     return data.map((d, i) => {
-      const x = ((parseFloat(d.label) - minXValue) * xScale);
+      const x = ((getXValue(d) - minXValue) * xScale);
       const y = height - ((d[yAxisKey] - minYValue) * yScale);
       return `${i === 0 ? 'M' : 'L'}${x} ${y}`;
     }).join(' ');
   };
 
+  // Trace of an optional value (compared lap or raw values), broken wherever a point has none
+  const generateOptionalPath = (hasValue: (d: DataPoint) => boolean, getValue: (d: DataPoint) => number) => {
+    let penDown = false;
+    return data.map(d => {
+      if (!hasValue(d)) {
+        penDown = false;
+        return '';
+      }
+      const x = ((getXValue(d) - minXValue) * xScale);
+      const y = height - ((getValue(d) - minYValue) * yScale);
+      const command = penDown ? 'L' : 'M';
+      penDown = true;
+      return `${command}${x} ${y}`;
+    }).filter(Boolean).join(' ');
+  };
+
   const calculateBarWidth = () => {
     const barCount = data.length;
     const maxBarWidth = 30;
@@ -386,13 +523,14 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
   const width = dimensions.width - margin.left - margin.right;
   const height = dimensions.height - margin.top - margin.bottom;
 
-  const minXValue = Math.min(...data.map(d => parseFloat(d.label)));
-  const maxXValue = Math.max(...data.map(d => parseFloat(d.label)));
+  const minXValue = Math.min(...data.map(getXValue));
+  const maxXValue = Math.max(...data.map(getXValue));
   const xRange = maxXValue - minXValue;
   const xScale = width / (xRange === 0 ? 1 : xRange);
   
-  const minYValue = Math.min(...data.map(d => d[yAxisKey]));
-  const maxYValue = Math.max(...data.map(d => d[yAxisKey]));
+  const [minYValue, maxYValue] = getYExtent(data, yAxisKey);
+  const showCompare = chartType === 'line' && compareLap !== null && data.some(hasCompareValue);
+  const showRaw = chartType === 'line' && data.some(hasRawValue);
   const yRange = maxYValue - minYValue;
   const yScale = height / (yRange === 0 ? 1 : yRange);
 
@@ -411,6 +549,29 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
         onMouseLeave={handleMouseLeave}
       >
         <g transform={`translate(${margin.left}, ${margin.top})`}>
+          {shadedRanges.map(range => {
+            // Clip each range to the plotted x-range
+            const x1 = Math.max(0, (range.start - minXValue) * xScale);
+            const x2 = Math.min(width, (range.end - minXValue) * xScale);
+            if (!(x2 > x1)) return null;
+            return (
+              <g key={`shade-${range.label}`}>
+                <rect x={x1} y={0} width={x2 - x1} height={height} fill="#FEF3C7" opacity="0.6" />
+                <text x={(x1 + x2) / 2} y={-6} textAnchor="middle" fontSize="10" fill="#B45309">
+                  {range.label}
+                </text>
+              </g>
+            );
+          })}
+          {markers.map((marker, index) => {
+            const x = (marker.position - minXValue) * xScale;
+            if (!(x >= 0 && x <= width)) return null;
+            return (
+              <line key={`marker-${index}`} x1={x} y1={0} x2={x} y2={height} stroke={marker.color} strokeWidth="1.5" strokeDasharray="3 3">
+                <title>{marker.label}</title>
+              </line>
+            );
+          })}
           <line x1="0" y1="0" x2="0" y2={height} stroke="#E5E7EB" strokeWidth="1" />
           {generateYTicks().map((tickValue, index) => {
             const y = height - ((tickValue - minYValue) * yScale);
@@ -433,7 +594,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
               <g key={`x-tick-${index}`}>
                 <line x1={x} y1={height} x2={x} y2={height + 5} stroke="#E5E7EB" strokeWidth="1" />
                 <text x={x} y={height + 20} textAnchor="middle" fontSize="12" fill="#6B7280">
-                  {tickValue}s
+                  {tickValue}{xAxisMode === 'distance' ? 'm' : 's'}
                 </text>
               </g>
             );
@@ -441,10 +602,29 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
           
           {chartType === 'line' ? (
             <>
+              {showRaw && (
+                <path
+                  d={generateOptionalPath(hasRawValue, d => d.raw as number)}
+                  fill="none"
+                  stroke={RAW_COLOR}
+                  strokeWidth="1"
+                  strokeLinejoin="round"
+                />
+              )}
+              {showCompare && (
+                <path
+                  d={generateOptionalPath(hasCompareValue, d => d.compare as number)}
+                  fill="none"
+                  stroke={COMPARE_COLOR}
+                  strokeWidth="2"
+                  strokeLinejoin="round"
+                  opacity="0.9"
+                />
+              )}
               <path
                 d={generateLinePath()}
                 fill="none"
-                stroke="#3B82F6"
+                stroke={PRIMARY_COLOR}
                 strokeWidth="3"
                 strokeLinejoin="round"
                 className="transition-all duration-500 ease-in-out"
@@ -454,7 +634,17 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
                   cx={hoverPoint.x}
                   cy={hoverPoint.y}
                   r="5"
-                  fill="#3B82F6"
+                  fill={PRIMARY_COLOR}
+                  stroke="#ffffff"
+                  strokeWidth="2"
+                />
+              )}
+              {showCompare && hoverPoint?.dataPoint && hasCompareValue(hoverPoint.dataPoint) && (
+                <circle
+                  cx={hoverPoint.x}
+                  cy={height - (((hoverPoint.dataPoint.compare as number) - minYValue) * yScale)}
+                  r="4"
+                  fill={COMPARE_COLOR}
                   stroke="#ffffff"
                   strokeWidth="2"
                 />
@@ -465,7 +655,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
             <>
               {data.map((d, i) => {
                 const barWidth = calculateBarWidth();
-                const x = ((parseFloat(d.label) - minXValue) * xScale) - (barWidth / 2);
+                const x = ((getXValue(d) - minXValue) * xScale) - (barWidth / 2);
                 const y = height - ((d[yAxisKey] - minYValue) * yScale);
                 // Bar interactions are disabled when sync is active to prevent conflicts
                 return (
@@ -484,8 +674,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
                       setHoverPoint(nearest);
                       const value = d[yAxisKey];
                       const formattedValue = formatValue(value);
-                      const time = d.label;
-                      const currentTime = parseFloat(time);
+                      const currentTime = getTimeValue(d);
                       if (lastDispatchedGraphTimeRef.current === null || Math.abs(lastDispatchedGraphTimeRef.current - currentTime) > 0.05) {
                         dispatchHoverTimeEvent(currentTime, true);
                         lastDispatchedGraphTimeRef.current = currentTime;
@@ -494,7 +683,7 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
                         visible: true,
                         x: barHoverX + margin.left,
                         y: barHoverY + margin.top,
-                        content: (<div><div className="font-semibold">Time: {time}s</div><div>{yAxisKey}: {formattedValue}</div></div>)
+                        content: (<div><div className="font-semibold">{xAxisMode === 'distance' ? 'Distance' : 'Time'}: {formatPointPosition(d, xAxisMode)}</div><div>{yAxisKey}: {formattedValue}</div></div>)
                       });
                     }}
                     onMouseLeave={handleMouseLeave}
@@ -507,6 +696,19 @@ const ChartComponent: React.FC<ChartComponentProps> = ({
         </g>
       </svg>
       
+      {showCompare && (
+        <div className="absolute top-0 right-2 flex gap-3 text-xs text-gray-600 pointer-events-none">
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: PRIMARY_COLOR }} />
+            Lap {selectedLap}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: COMPARE_COLOR }} />
+            Lap {compareLap}
+          </span>
+        </div>
+      )}
+
       {tooltip.visible && (
         <div
           className="absolute bg-white px-3 py-2 rounded shadow-md text-sm z-10 pointer-events-none border border-gray-200"
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { ArrowUp, ArrowDown, Plus, X } from 'lucide-react';
+import ChannelPane from './ChannelPane';
+import { XAxisMode } from './ChartComponent';
+import { ChannelDataPoint } from '../../api/sessionApi';
+import { SERIES_COLORS } from '../../utils/colors';
+
+interface ChartPaneStackProps {
+  sessionId: string;
+  lap: number | null;
+  channels: string[];
+  xAxisMode: XAxisMode;
+  lapDistance: ChannelDataPoint[];
+  xDomain: [number, number] | null;
+}
+
+interface PaneConfig {
+  id: number;
+  channels: string[];
+}
+
+let nextPaneId = 1;
+
+const ChartPaneStack: React.FC<ChartPaneStackProps> = ({
+  sessionId,
+  lap,
+  channels,
+  xAxisMode,
+  lapDistance,
+  xDomain
+}) => {
+  const [panes, setPanes] = useState<PaneConfig[]>([]);
+
+  const updatePane = (id: number, update: (pane: PaneConfig) => PaneConfig) =>
+    setPanes(prev => prev.map(pane => (pane.id === id ? update(pane) : pane)));
+
+  const addPane = () => {
+    // Start with the first channel no other pane shows yet
+    const used = new Set(panes.flatMap(pane => pane.channels));
+    const channel = channels.find(name => !used.has(name)) ?? channels[0];
+    setPanes(prev => [...prev, { id: nextPaneId++, channels: channel ? [channel] : [] }]);
+  };
+
+  const movePane = (index: number, offset: number) =>
+    setPanes(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+
+  const iconButtonClass = 'p-1 rounded text-gray-500 hover:text-gray-800 hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="mt-6 space-y-4">
+      {panes.map((pane, index) => (
+        <div key={pane.id} className="border-t border-gray-200 pt-3">
+          <div className="flex flex-wrap items-center gap-2 mb-2">
+            {pane.channels.map((channel, i) => (
+              <span
+                key={channel}
+                className="inline-flex items-center gap-1 text-xs bg-gray-100 rounded-full pl-2 pr-1 py-0.5"
+                style={{ color: SERIES_COLORS[i % SERIES_COLORS.length] }}
+              >
+                {channel}
+                <button
+                  type="button"
+                  aria-label={`Remove ${channel}`}
+                  onClick={() => updatePane(pane.id, p => ({ ...p, channels: p.channels.filter(c => c !== channel) }))}
+                  className="text-gray-400 hover:text-gray-700"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+            <select
+              value=""
+              onChange={(e) => {
+                const channel = e.target.value;
+                if (channel) updatePane(pane.id, p => ({ ...p, channels: [...p.channels, channel] }));
+              }}
+              className="text-xs bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Add channel...</option>
+              {channels
+                .filter(channel => !pane.channels.includes(channel))
+                .map(channel => (
+                  <option key={channel} value={channel}>{channel}</option>
+                ))}
+            </select>
+            <div className="ml-auto flex items-center gap-1">
+              <button type="button" aria-label="Move pane up" onClick={() => movePane(index, -1)} disabled={index === 0} className={iconButtonClass}>
+                <ArrowUp className="w-4 h-4" />
+              </button>
+              <button type="button" aria-label="Move pane down" onClick={() => movePane(index, 1)} disabled={index === panes.length - 1} className={iconButtonClass}>
+                <ArrowDown className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                aria-label="Remove pane"
+                onClick={() => setPanes(prev => prev.filter(p => p.id !== pane.id))}
+                className={iconButtonClass}
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+          <ChannelPane
+            sessionId={sessionId}
+            lap={lap}
+            channels={pane.channels}
+            xAxisMode={xAxisMode}
+            lapDistance={lapDistance}
+            xDomain={xDomain}
+          />
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={addPane}
+        disabled={channels.length === 0}
+        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add chart pane
+      </button>
+    </div>
+  );
+};
+
+export default ChartPaneStack;
\ No newline at end of file
@@ -1,10 +1,27 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { LineChart } from 'lucide-react';
 import GraphControls from './GraphControls';
-import ChartComponent from './ChartComponent';
+import ChartComponent, { ChartMarker, ShadedRange, XAxisMode } from './ChartComponent';
+import ExportMenu from './ExportMenu';
+import DeltaTimeChart from './DeltaTimeChart';
+import ChartPaneStack from './ChartPaneStack';
+import MathChannelEditor from './MathChannelEditor';
+import FilterControls from './FilterControls';
 import { DataPoint } from './mockData';
 import LoadingSpinner from '../common/LoadingSpinner';
-import { fetchLapChannelData, ChannelDataPoint } from '../../api/sessionApi';
+import { fetchLapChannelData, ChannelDataPoint, SessionData } from '../../api/sessionApi';
+import { MathChannelDefinition } from '../../api/mathChannels';
+import { isAbortError } from '../../api/http';
+import { LapTimeline, findFastestLap } from '../../utils/lapTimeline';
+import { DISTANCE_CHANNEL, useLapDistance } from '../../hooks/useLapDistance';
+import { useLapPrefetch } from '../../hooks/useLapPrefetch';
+import { distanceAtTimes, valuesAtDistances } from '../../utils/distance';
+import { resampleSeries } from '../../utils/resample';
+import { applySignalFilter } from '../../utils/signalFilters';
+import { useChannelFilters } from '../../hooks/useChannelFilters';
+import { Corner, CornerMetrics } from '../../utils/corners';
+import { DrivingEvent, describeDrivingEvent } from '../../utils/drivingEvents';
+import { DRIVING_EVENT_COLORS } from '../../utils/colors';
 
 // Define props interface
 interface DataVisualizationProps {
@@ -13,6 +30,16 @@ interface DataVisualizationProps {
   sessionId: string;
   selectedLap?: number | null;
   onLapChange?: (lap: number | null) => void;
+  sessionData?: SessionData | null;
+  lapTimeline?: LapTimeline;
+  mathChannels?: MathChannelDefinition[];
+  onMathChannelsChange?: (definitions: MathChannelDefinition[]) => void;
+  corners?: Corner[];
+  cornerMetrics?: CornerMetrics[]; // How the selected lap went through each corner
+  drivingEvents?: DrivingEvent[];  // Braking and throttle points of the selected lap
+  lapScores?: Record<number, number>; // GPS quality of each lap, in percent
+  excludedLaps?: number[];            // Laps that may not serve as the fastest lap
+  prefetchChannels?: string[];        // Channels other views load for each lap, such as the map colour channel
 }
 
 const DataVisualization: React.FC<DataVisualizationProps> = ({ 
@@ -20,7 +47,17 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
   lapOptions, 
   sessionId,
   selectedLap: propSelectedLap,
-  onLapChange
+  onLapChange,
+  sessionData,
+  lapTimeline,
+  mathChannels = [],
+  onMathChannelsChange,
+  corners = [],
+  cornerMetrics,
+  drivingEvents = [],
+  lapScores,
+  excludedLaps,
+  prefetchChannels = []
 }) => {
   // Use internal state if no external control is provided
   const [internalSelectedLap, setInternalSelectedLap] = useState<number | null>(
@@ -51,9 +88,23 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
 
   const [yAxis, setYAxis] = useState<string>(channels.length > 0 ? channels[0] : '');
   const chartType = 'line';
+  const [xAxisMode, setXAxisMode] = useState<XAxisMode>('time');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [channelData, setChannelData] = useState<ChannelDataPoint[]>([]);
+  // Second lap overlaid on the chart, aligned to the selected lap by distance
+  const [compareLap, setCompareLap] = useState<number | null>(null);
+  const [compareData, setCompareData] = useState<ChannelDataPoint[]>([]);
+  const { getFilter, setFilter } = useChannelFilters();
+  // Reference lap of the delta-T pane; null follows the session's fastest lap
+  const [referenceLapChoice, setReferenceLapChoice] = useState<number | null>(null);
+  const fastestLap = useMemo(
+    () => (lapTimeline ? findFastestLap(lapTimeline, sessionData?.best, excludedLaps) : null),
+    [lapTimeline, sessionData?.best, excludedLaps]
+  );
+  const referenceLap = referenceLapChoice !== null && lapOptions.includes(referenceLapChoice)
+    ? referenceLapChoice
+    : fastestLap;
 
   useEffect(() => {
     if (lapOptions.length > 0 && selectedLap === null && !isControlled) {
@@ -78,6 +129,8 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
   }, [channels, yAxis]);
 
   useEffect(() => {
+    const controller = new AbortController(); // Cancels the stale request when the lap or channel changes
+
     const fetchData = async () => {
       if (!sessionId || !selectedLap || !yAxis) {
         return;
@@ -87,55 +140,204 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
       setError(null);
 
       try {
-        const data = await fetchLapChannelData(sessionId, selectedLap, yAxis);
+        const data = await fetchLapChannelData(sessionId, selectedLap, yAxis, { signal: controller.signal });
         setChannelData(data);
       } catch (err) {
+        if (isAbortError(err)) return;
         console.error("Error fetching channel data:", err);
         setError("Failed to fetch data. Please try again.");
         setChannelData([]);
       } finally {
-        setIsLoading(false);
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
       }
     };
 
     fetchData();
+
+    return () => controller.abort();
   }, [sessionId, selectedLap, yAxis]);
 
+  // A lap cannot be compared with itself
+  useEffect(() => {
+    if (compareLap !== null && (compareLap === selectedLap || !lapOptions.includes(compareLap))) {
+      setCompareLap(null);
+    }
+  }, [compareLap, selectedLap, lapOptions]);
+
+  useEffect(() => {
+    if (!sessionId || compareLap === null || !yAxis) {
+      setCompareData([]);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels the stale request when the compared lap changes
+    fetchLapChannelData(sessionId, compareLap, yAxis, { signal: controller.signal })
+      .then(setCompareData)
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Error fetching comparison lap data:", err);
+        setCompareData([]);
+      });
+
+    return () => controller.abort();
+  }, [sessionId, compareLap, yAxis]);
+
+  // Lap distance is only loaded when plotting against distance or aligning a compared lap
+  const {
+    distance: lapDistance,
+    isLoading: isDistanceLoading,
+    error: distanceError
+  } = useLapDistance(sessionId, selectedLap, channels, xAxisMode === 'distance' || compareLap !== null);
+  const { distance: compareDistance } = useLapDistance(sessionId, compareLap, channels, compareLap !== null);
+  // Only a distance x-axis needs the distance to draw the chart; the compare overlay is dropped without it
+  const isDistanceAxis = xAxisMode === 'distance';
+
+  // Warm the cache with every channel a lap switch loads, for every lap, so lap switching is instant
+  const prefetch = useLapPrefetch(sessionId, lapOptions, [
+    yAxis,
+    ...(channels.includes(DISTANCE_CHANNEL) ? [DISTANCE_CHANNEL] : []),
+    ...prefetchChannels,
+  ]);
+
+  // Smoothing chosen for the plotted channel, applied to both laps
+  const filter = getFilter(yAxis);
+  const plottedData = useMemo(() => applySignalFilter(channelData, filter), [channelData, filter]);
+  const plottedCompareData = useMemo(() => applySignalFilter(compareData, filter), [compareData, filter]);
+  const showRaw = filter.type !== 'none' && filter.showRaw;
+
   // Transform channel data for ChartComponent
   const transformedData: DataPoint[] = useMemo(() => {
     console.log('[DataVisualization] Recomputing transformedData. channelData length:', channelData.length);
-    return channelData.map((point, index) => ({
+    const isComparing = compareLap !== null && plottedCompareData.length > 0
+      && lapDistance.length > 0 && compareDistance.length > 0;
+    const distances = xAxisMode === 'distance' || isComparing
+      ? distanceAtTimes(lapDistance, plottedData.map(point => point.s))
+      : [];
+    // Compared lap values at the same distances as the selected lap's points
+    const compareValues = isComparing ? valuesAtDistances(plottedCompareData, compareDistance, distances) : [];
+    const compareAt = (index: number) => (isComparing ? compareValues[index] : undefined);
+    // Unfiltered values at the filtered samples' timestamps
+    const rawValues = showRaw ? resampleSeries(channelData, plottedData.map(point => point.s)) : [];
+    const rawAt = (index: number) => (showRaw ? rawValues[index] : undefined);
+
+    if (xAxisMode === 'distance') {
+      // Label each point with its lap distance, keeping its time for map and video sync
+      return plottedData
+        .map((point, index) => ({
+          id: index,
+          timeframe: 'month' as const, // Not used for channel data
+          label: distances[index].toFixed(1), // Distance in metres as label
+          time: point.s,
+          sales: point.d, // Use 'd' value as the y-axis value
+          revenue: 0, // Not used
+          units: 0, // Not used
+          compare: compareAt(index),
+          raw: rawAt(index),
+        }))
+        .filter((_, index) => !Number.isNaN(distances[index]));
+    }
+    return plottedData.map((point, index) => ({
       id: index,
       timeframe: 'month', // Not used for channel data
       label: point.s.toFixed(1), // Time in seconds as label
       sales: point.d, // Use 'd' value as the y-axis value
       revenue: 0, // Not used
       units: 0, // Not used
+      compare: compareAt(index),
+      raw: rawAt(index),
     }));
-  }, [channelData]); // Memoize based on channelData
+  }, [plottedData, channelData, showRaw, lapDistance, xAxisMode, compareLap, plottedCompareData, compareDistance]); // Memoize based on both laps and the x-axis
+
+  // X range of the main chart, shared by the stacked panes so their cursors line up
+  const xDomain = useMemo((): [number, number] | null => {
+    if (transformedData.length === 0) return null;
+    const xs = transformedData.map(point => parseFloat(point.label));
+    return [Math.min(...xs), Math.max(...xs)];
+  }, [transformedData]);
+
+  // Corners shaded on the chart: by distance, or by when the selected lap went through them
+  const cornerRanges = useMemo((): ShadedRange[] => {
+    if (xAxisMode === 'distance') {
+      return corners.map(corner => ({ start: corner.entryDistance, end: corner.exitDistance, label: `T${corner.number}` }));
+    }
+    return (cornerMetrics ?? [])
+      .filter(metrics => Number.isFinite(metrics.entryTime) && Number.isFinite(metrics.exitTime))
+      .map(metrics => ({ start: metrics.entryTime, end: metrics.exitTime, label: `T${metrics.corner}` }));
+  }, [corners, cornerMetrics, xAxisMode]);
+
+  // Braking and throttle points of the selected lap, as vertical lines
+  const eventMarkers = useMemo((): ChartMarker[] => drivingEvents
+    .map(event => ({
+      position: xAxisMode === 'distance' ? event.distance : event.time,
+      color: DRIVING_EVENT_COLORS[event.type],
+      label: describeDrivingEvent(event),
+    }))
+    .filter(marker => Number.isFinite(marker.position)), [drivingEvents, xAxisMode]);
 
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
-      
-      
+      <div className="flex justify-end items-center gap-4 mb-4">
+        {prefetch.isPrefetching && (
+          <div className="flex items-center gap-2 text-xs text-gray-500" title="Loading every lap in the background">
+            <span>Preloading laps {prefetch.completed}/{prefetch.total}</span>
+            <div className="w-24 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-500 transition-all"
+                style={{ width: `${prefetch.total > 0 ? (prefetch.completed / prefetch.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {onMathChannelsChange && (
+          <MathChannelEditor
+            nativeChannels={sessionData?.channels ?? []}
+            definitions={mathChannels}
+            onSave={onMathChannelsChange}
+          />
+        )}
+        <ExportMenu
+          sessionId={sessionId}
+          sessionData={sessionData}
+          lapTimeline={lapTimeline}
+          channels={channels}
+          lapOptions={lapOptions}
+          selectedLap={selectedLap}
+          selectedChannel={yAxis}
+        />
+      </div>
       
       <GraphControls
         lapOptions={lapOptions}
         selectedLap={selectedLap}
         onLapChange={handleLapChange}
+        lapScores={lapScores}
+        compareLap={compareLap}
+        onCompareLapChange={setCompareLap}
         yAxis={yAxis}
         yAxisOptions={channels}
         onYAxisChange={setYAxis}
+        xAxisMode={xAxisMode}
+        onXAxisModeChange={setXAxisMode}
       />
+
+      {yAxis && (
+        <FilterControls
+          channel={yAxis}
+          filter={filter}
+          onFilterChange={(next) => setFilter(yAxis, next)}
+        />
+      )}
       
       <div className="h-80 mt-6">
-        {isLoading ? (
+        {isLoading || (isDistanceAxis && isDistanceLoading) ? (
           <div className="h-full flex items-center justify-center">
             <LoadingSpinner />
           </div>
-        ) : error ? (
+        ) : error || (isDistanceAxis && distanceError) ? (
           <div className="h-full flex items-center justify-center text-red-500">
-            {error}
+            {error || 'Failed to load lap distance. Please try again.'}
           </div>
         ) : channelData.length === 0 ? (
           <div className="h-full flex items-center justify-center text-gray-500">
@@ -147,10 +349,33 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
             selectedLap={selectedLap}
             yAxisKey={'sales'}
             chartType={chartType}
+            xAxisMode={xAxisMode}
+            compareLap={compareLap}
+            shadedRanges={cornerRanges}
+            markers={eventMarkers}
           />
         )}
       </div>
 
+      <ChartPaneStack
+        sessionId={sessionId}
+        lap={selectedLap}
+        channels={channels}
+        xAxisMode={xAxisMode}
+        lapDistance={lapDistance}
+        xDomain={xDomain}
+      />
+
+      <DeltaTimeChart
+        sessionId={sessionId}
+        channels={channels}
+        lapOptions={lapOptions}
+        selectedLap={selectedLap}
+        referenceLap={referenceLap}
+        fastestLap={fastestLap}
+        onReferenceLapChange={setReferenceLapChoice}
+      />
+
      
     </div>
   );
@@ -0,0 +1,197 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { CHART_HOVER_EVENT } from './ChartComponent';
+import { useLapDistance } from '../../hooks/useLapDistance';
+import { computeDeltaTime, DeltaTimePoint } from '../../utils/deltaTime';
+
+// Same horizontal margins as the channel chart so the panes line up
+const margin = { top: 10, right: 70, bottom: 30, left: 60 };
+
+const GAIN_COLOR = '#10B981';
+const LOSS_COLOR = '#EF4444';
+
+interface DeltaTimeChartProps {
+  sessionId: string;
+  channels: string[];
+  lapOptions: number[];
+  selectedLap: number | null;
+  referenceLap: number | null;
+  fastestLap: number | null;
+  onReferenceLapChange: (lap: number | null) => void;
+}
+
+const formatDelta = (delta: number) => `${delta > 0 ? '+' : ''}${delta.toFixed(3)}s`;
+
+// Index of the point closest to a value, on a series sorted by that value
+const findNearestIndex = (points: DeltaTimePoint[], value: number, key: 'distance' | 'time') => {
+  let nearest = 0;
+  points.forEach((point, i) => {
+    if (Math.abs(point[key] - value) < Math.abs(points[nearest][key] - value)) nearest = i;
+  });
+  return nearest;
+};
+
+const DeltaTimeChart: React.FC<DeltaTimeChartProps> = ({
+  sessionId,
+  channels,
+  lapOptions,
+  selectedLap,
+  referenceLap,
+  fastestLap,
+  onReferenceLapChange
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [cursorIndex, setCursorIndex] = useState<number | null>(null);
+
+  const isSameLap = selectedLap !== null && selectedLap === referenceLap;
+  const { distance: lapDistance, isLoading: isLapLoading, error: lapError } =
+    useLapDistance(sessionId, selectedLap, channels, !isSameLap);
+  const { distance: referenceDistance, isLoading: isReferenceLoading, error: referenceError } =
+    useLapDistance(sessionId, referenceLap, channels, !isSameLap);
+
+  const deltaPoints = useMemo(
+    () => (isSameLap ? [] : computeDeltaTime(lapDistance, referenceDistance)),
+    [lapDistance, referenceDistance, isSameLap]
+  );
+
+  // Measure the pane on mount and window resize
+  useEffect(() => {
+    const updateWidth = () => {
+      if (containerRef.current) setWidth(containerRef.current.getBoundingClientRect().width);
+    };
+    updateWidth();
+    window.addEventListener('resize', updateWidth);
+    return () => window.removeEventListener('resize', updateWidth);
+  }, []);
+
+  // Follow the cursor of the channel chart, map and video
+  useEffect(() => {
+    const handleHover = (event: Event) => {
+      const time = (event as CustomEvent<{ time: number | null }>).detail.time;
+      setCursorIndex(time === null || deltaPoints.length === 0 ? null : findNearestIndex(deltaPoints, time, 'time'));
+    };
+    document.addEventListener(CHART_HOVER_EVENT, handleHover);
+    return () => document.removeEventListener(CHART_HOVER_EVENT, handleHover);
+  }, [deltaPoints]);
+
+  const height = 160;
+  const chartWidth = Math.max(0, width - margin.left - margin.right);
+  const chartHeight = height - margin.top - margin.bottom;
+
+  const minDistance = deltaPoints.length > 0 ? deltaPoints[0].distance : 0;
+  const maxDistance = deltaPoints.length > 0 ? deltaPoints[deltaPoints.length - 1].distance : 1;
+  // Keep zero on screen and the scale symmetric enough to read gains and losses at a glance
+  const maxAbsDelta = Math.max(0.1, ...deltaPoints.map(point => Math.abs(point.delta)));
+  const xScale = (distance: number) =>
+    ((distance - minDistance) / ((maxDistance - minDistance) || 1)) * chartWidth;
+  const yScale = (delta: number) => chartHeight / 2 - (delta / maxAbsDelta) * (chartHeight / 2);
+
+  // Area between the trace and zero, clamped to one side so gains and losses shade separately
+  const areaPath = (clamp: (delta: number) => number) => {
+    if (deltaPoints.length === 0) return '';
+    const line = deltaPoints.map(point => `L${xScale(point.distance)} ${yScale(clamp(point.delta))}`).join(' ');
+    return `M${xScale(minDistance)} ${yScale(0)} ${line} L${xScale(maxDistance)} ${yScale(0)} Z`;
+  };
+  const linePath = deltaPoints
+    .map((point, i) => `${i === 0 ? 'M' : 'L'}${xScale(point.distance)} ${yScale(point.delta)}`)
+    .join(' ');
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (deltaPoints.length === 0) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const mouseX = event.clientX - rect.left - margin.left;
+    const distance = minDistance + (mouseX / (chartWidth || 1)) * (maxDistance - minDistance);
+    const index = findNearestIndex(deltaPoints, distance, 'distance');
+    setCursorIndex(index);
+    document.dispatchEvent(new CustomEvent(CHART_HOVER_EVENT, {
+      detail: { time: deltaPoints[index].time, userInitiated: true }
+    }));
+  };
+
+  const cursorPoint = cursorIndex !== null ? deltaPoints[cursorIndex] : undefined;
+  const finalDelta = deltaPoints.length > 0 ? deltaPoints[deltaPoints.length - 1].delta : null;
+  const isLoading = isLapLoading || isReferenceLoading;
+
+  const renderBody = () => {
+    if (isSameLap) {
+      return <div className="h-full flex items-center justify-center text-gray-500">Select a different lap to compare against the reference lap</div>;
+    }
+    if (isLoading) {
+      return <div className="h-full flex items-center justify-center"><LoadingSpinner /></div>;
+    }
+    if (lapError || referenceError) {
+      return <div className="h-full flex items-center justify-center text-red-500">Failed to load lap distance. Please try again.</div>;
+    }
+    if (deltaPoints.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-500">No distance data available for these laps</div>;
+    }
+    return (
+      <svg width="100%" height={height} onMouseMove={handleMouseMove}>
+        <g transform={`translate(${margin.left}, ${margin.top})`}>
+          <path d={areaPath(delta => Math.min(delta, 0))} fill={GAIN_COLOR} opacity="0.25" />
+          <path d={areaPath(delta => Math.max(delta, 0))} fill={LOSS_COLOR} opacity="0.25" />
+          <line x1="0" y1={yScale(0)} x2={chartWidth} y2={yScale(0)} stroke="#9CA3AF" strokeWidth="1" />
+          <path d={linePath} fill="none" stroke="#374151" strokeWidth="1.5" strokeLinejoin="round" />
+          {[maxAbsDelta, 0, -maxAbsDelta].map(tick => (
+            <text key={tick} x="-10" y={yScale(tick)} textAnchor="end" dominantBaseline="middle" fontSize="12" fill="#6B7280">
+              {formatDelta(tick)}
+            </text>
+          ))}
+          <text x={chartWidth} y={chartHeight + 20} textAnchor="end" fontSize="12" fill="#6B7280">
+            {Math.round(maxDistance)}m
+          </text>
+          <text x="0" y={chartHeight + 20} textAnchor="start" fontSize="12" fill="#6B7280">
+            {Math.round(minDistance)}m
+          </text>
+          {cursorPoint && (
+            <>
+              <line x1={xScale(cursorPoint.distance)} y1="0" x2={xScale(cursorPoint.distance)} y2={chartHeight} stroke="#3B82F6" strokeWidth="1" />
+              <text
+                x={xScale(cursorPoint.distance) + 6}
+                y="12"
+                fontSize="12"
+                fill={cursorPoint.delta > 0 ? LOSS_COLOR : GAIN_COLOR}
+              >
+                {formatDelta(cursorPoint.delta)} at {cursorPoint.distance.toFixed(0)}m
+              </text>
+            </>
+          )}
+        </g>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-sm font-medium text-gray-700">
+          Delta T vs Lap {referenceLap ?? '-'}
+          {finalDelta !== null && (
+            <span className="ml-2" style={{ color: finalDelta > 0 ? LOSS_COLOR : GAIN_COLOR }}>
+              ({formatDelta(finalDelta)} over the lap)
+            </span>
+          )}
+        </h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          Reference lap
+          <select
+            value={referenceLap ?? ''}
+            onChange={(e) => onReferenceLapChange(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            disabled={lapOptions.length === 0}
+          >
+            {lapOptions.map(lap => (
+              <option key={lap} value={lap}>{`Lap ${lap}${lap === fastestLap ? ' (fastest)' : ''}`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div ref={containerRef} className="h-40">
+        {renderBody()}
+      </div>
+    </div>
+  );
+};
+
+export default DeltaTimeChart;
\ No newline at end of file
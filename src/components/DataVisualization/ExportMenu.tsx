@@ -0,0 +1,173 @@
+import React, { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { fetchLapChannelData, SessionData } from '../../api/sessionApi';
+import { LapTimeline } from '../../utils/lapTimeline';
+import { buildChannelCsv, buildChannelJson, downloadFile, LapChannelExport } from '../../utils/exportData';
+
+interface ExportMenuProps {
+  sessionId: string;
+  sessionData?: SessionData | null;
+  lapTimeline?: LapTimeline;
+  channels: string[];
+  lapOptions: number[];
+  selectedLap: number | null;
+  selectedChannel: string;
+}
+
+type ExportFormat = 'csv' | 'json';
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  sessionId,
+  sessionData,
+  lapTimeline,
+  channels,
+  lapOptions,
+  selectedLap,
+  selectedChannel
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [useCurrentChannel, setUseCurrentChannel] = useState(true);
+  const [exportChannels, setExportChannels] = useState<string[]>([]);
+  const [exportLaps, setExportLaps] = useState<number[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start from the current selection every time the menu opens
+  useEffect(() => {
+    if (isOpen) {
+      setExportChannels(selectedChannel ? [selectedChannel] : []);
+      setExportLaps(selectedLap !== null ? [selectedLap] : []);
+      setError(null);
+    }
+  }, [isOpen, selectedChannel, selectedLap]);
+
+  const toggle = <T,>(values: T[], value: T): T[] =>
+    values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+  const channelsToExport = useCurrentChannel
+    ? (selectedChannel ? [selectedChannel] : [])
+    : channels.filter(channel => exportChannels.includes(channel));
+  const lapsToExport = lapOptions.filter(lap => exportLaps.includes(lap));
+
+  const handleExport = async () => {
+    if (channelsToExport.length === 0 || lapsToExport.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const laps: LapChannelExport[] = await Promise.all(lapsToExport.map(async lap => {
+        const series = await Promise.all(
+          channelsToExport.map(channel => fetchLapChannelData(sessionId, lap, channel))
+        );
+        return {
+          lap,
+          timing: lapTimeline?.getLap(lap),
+          data: Object.fromEntries(channelsToExport.map((channel, i) => [channel, series[i]])),
+        };
+      }));
+
+      const lapPart = lapsToExport.length === 1 ? `lap${lapsToExport[0]}` : `${lapsToExport.length}laps`;
+      const channelPart = channelsToExport.length === 1
+        ? channelsToExport[0].replace(/\s+/g, '_')
+        : `${channelsToExport.length}channels`;
+      const baseName = `${sessionId}_${lapPart}_${channelPart}`;
+
+      if (format === 'csv') {
+        downloadFile(buildChannelCsv(laps, channelsToExport), `${baseName}.csv`, 'text/csv');
+      } else if (sessionData) {
+        downloadFile(buildChannelJson(sessionData, laps, channelsToExport), `${baseName}.json`, 'application/json');
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error("Error exporting channel data:", err);
+      setError("Failed to export data. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={channels.length === 0 || lapOptions.length === 0}
+        className="inline-flex items-center gap-2 bg-gray-200 text-gray-800 px-3 py-2 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg p-4 z-20 space-y-4 text-sm">
+          <div>
+            <span className="block font-medium text-gray-700 mb-1">Format</span>
+            <div className="flex gap-4">
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} /> CSV
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" checked={format === 'json'} onChange={() => setFormat('json')} disabled={!sessionData} /> JSON
+              </label>
+            </div>
+          </div>
+
+          <div>
+            <span className="block font-medium text-gray-700 mb-1">Channels</span>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={useCurrentChannel} onChange={() => setUseCurrentChannel(true)} />
+              Current channel ({selectedChannel || 'none'})
+            </label>
+            <label className="flex items-center gap-1">
+              <input type="radio" checked={!useCurrentChannel} onChange={() => setUseCurrentChannel(false)} />
+              Choose channels
+            </label>
+            {!useCurrentChannel && (
+              <div className="mt-2 max-h-32 overflow-y-auto border border-gray-200 rounded p-2">
+                {channels.map(channel => (
+                  <label key={channel} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={exportChannels.includes(channel)}
+                      onChange={() => setExportChannels(prev => toggle(prev, channel))}
+                    />
+                    {channel}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <span className="block font-medium text-gray-700 mb-1">Laps</span>
+            <div className="grid grid-cols-4 gap-1">
+              {lapOptions.map(lap => (
+                <label key={lap} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={exportLaps.includes(lap)}
+                    onChange={() => setExportLaps(prev => toggle(prev, lap))}
+                  />
+                  {lap}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {error && <p className="text-red-500">{error}</p>}
+
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting || channelsToExport.length === 0 || lapsToExport.length === 0}
+            className="w-full bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,61 @@
+import React from 'react';
+import { SIGNAL_FILTERS, SignalFilter, SignalFilterType } from '../../utils/signalFilters';
+
+interface FilterControlsProps {
+  channel: string;
+  filter: SignalFilter;
+  onFilterChange: (filter: SignalFilter) => void;
+}
+
+const FilterControls: React.FC<FilterControlsProps> = ({ channel, filter, onFilterChange }) => {
+  const option = SIGNAL_FILTERS[filter.type];
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mt-4 text-sm text-gray-700">
+      <label htmlFor="signal-filter">Smoothing for {channel}</label>
+      <select
+        id="signal-filter"
+        value={filter.type}
+        onChange={(e) => {
+          const type = e.target.value as SignalFilterType;
+          // Each filter starts from its own default strength
+          onFilterChange({ ...filter, type, parameter: SIGNAL_FILTERS[type].defaultParameter });
+        }}
+        className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      >
+        {(Object.keys(SIGNAL_FILTERS) as SignalFilterType[]).map(type => (
+          <option key={type} value={type}>{SIGNAL_FILTERS[type].label}</option>
+        ))}
+      </select>
+      {filter.type !== 'none' && (
+        <label className="flex items-center gap-2">
+          {option.parameterLabel}
+          <input
+            type="number"
+            min={option.step}
+            step={option.step}
+            value={filter.parameter}
+            onChange={(e) => {
+              const parameter = parseFloat(e.target.value);
+              if (parameter > 0) onFilterChange({ ...filter, parameter });
+            }}
+            className="w-20 bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <span className="text-gray-500">{option.unit}</span>
+        </label>
+      )}
+      {filter.type !== 'none' && (
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={filter.showRaw}
+            onChange={(e) => onFilterChange({ ...filter, showRaw: e.target.checked })}
+          />
+          Show raw trace
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default FilterControls;
\ No newline at end of file
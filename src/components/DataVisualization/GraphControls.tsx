@@ -1,26 +1,39 @@
 import React from 'react';
+import { XAxisMode } from './ChartComponent';
 
 interface GraphControlsProps {
   // Lap props
   lapOptions: number[];
   selectedLap: number | null;
   onLapChange: (value: number) => void;
+  lapScores?: Record<number, number>; // GPS quality of each lap, in percent
+  // Comparison lap props
+  compareLap: number | null;
+  onCompareLapChange: (value: number | null) => void;
   // Channel props (Y-Axis)
   yAxis: string;
   yAxisOptions: string[];
   onYAxisChange: (value: string) => void;
+  // X-Axis props
+  xAxisMode: XAxisMode;
+  onXAxisModeChange: (value: XAxisMode) => void;
 }
 
 const GraphControls: React.FC<GraphControlsProps> = ({ 
   lapOptions,
   selectedLap,
   onLapChange,
+  lapScores = {},
+  compareLap,
+  onCompareLapChange,
   yAxis,
   yAxisOptions,
-  onYAxisChange
+  onYAxisChange,
+  xAxisMode,
+  onXAxisModeChange
 }) => {
   return (
-    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
       <div>
         <label htmlFor="lap-select" className="block text-sm font-medium text-gray-700 mb-1">
           Select Lap
@@ -41,11 +54,36 @@ const GraphControls: React.FC<GraphControlsProps> = ({
             <option value="">Loading laps...</option>
           ) : (
             lapOptions.map(lap => (
-              <option key={lap} value={lap}>{`Lap ${lap}`}</option>
+              <option key={lap} value={lap}>
+                {lapScores[lap] !== undefined ? `Lap ${lap} (GPS ${Math.floor(lapScores[lap])}%)` : `Lap ${lap}`}
+              </option>
             ))
           )}
         </select>
       </div>
+
+      <div>
+        <label htmlFor="compare-lap-select" className="block text-sm font-medium text-gray-700 mb-1">
+          Compare With Lap
+        </label>
+        <select
+          id="compare-lap-select"
+          value={compareLap ?? ''}
+          onChange={(e) => {
+            const value = e.target.value;
+            onCompareLapChange(value ? parseInt(value, 10) : null);
+          }}
+          className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          disabled={lapOptions.length < 2}
+        >
+          <option value="">None</option>
+          {lapOptions
+            .filter(lap => lap !== selectedLap)
+            .map(lap => (
+              <option key={lap} value={lap}>{`Lap ${lap}`}</option>
+            ))}
+        </select>
+      </div>
       
       <div>
         <label htmlFor="y-axis" className="block text-sm font-medium text-gray-700 mb-1">
@@ -67,6 +105,21 @@ const GraphControls: React.FC<GraphControlsProps> = ({
           )}
         </select>
       </div>
+
+      <div>
+        <label htmlFor="x-axis" className="block text-sm font-medium text-gray-700 mb-1">
+          X-Axis
+        </label>
+        <select
+          id="x-axis"
+          value={xAxisMode}
+          onChange={(e) => onXAxisModeChange(e.target.value as XAxisMode)}
+          className="block w-full bg-white border border-gray-300 rounded-md py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="time">Time</option>
+          <option value="distance">Distance</option>
+        </select>
+      </div>
     </div>
   );
 };
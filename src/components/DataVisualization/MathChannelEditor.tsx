@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { Sigma, Pencil, Trash2 } from 'lucide-react';
+import { MathChannelDefinition, validateMathChannel } from '../../api/mathChannels';
+import { getChannelReferences, parseMathExpression } from '../../utils/mathExpression';
+
+interface MathChannelEditorProps {
+  nativeChannels: string[];
+  definitions: MathChannelDefinition[];
+  onSave: (definitions: MathChannelDefinition[]) => void;
+}
+
+const emptyDraft: MathChannelDefinition = { name: '', expression: '', unit: '' };
+
+// Channels a math channel reads, or none if its expression is broken
+const referencesOf = (definition: MathChannelDefinition): string[] => {
+  try {
+    return getChannelReferences(parseMathExpression(definition.expression));
+  } catch {
+    return [];
+  }
+};
+
+const MathChannelEditor: React.FC<MathChannelEditorProps> = ({
+  nativeChannels,
+  definitions,
+  onSave
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<MathChannelDefinition>(emptyDraft);
+  const [editingName, setEditingName] = useState<string | null>(null); // Name of the channel being edited
+  const [error, setError] = useState<string | null>(null);
+
+  const others = definitions.filter(definition => definition.name !== editingName);
+  const draftError = draft.name || draft.expression ? validateMathChannel(draft, nativeChannels, others) : null;
+
+  const resetDraft = () => {
+    setDraft(emptyDraft);
+    setEditingName(null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (draftError) return;
+    const saved: MathChannelDefinition = {
+      name: draft.name.trim(),
+      expression: draft.expression.trim(),
+      ...(draft.unit?.trim() ? { unit: draft.unit.trim() } : {}),
+    };
+    const dependents = editingName && editingName !== saved.name
+      ? definitions.filter(definition => referencesOf(definition).includes(editingName))
+      : [];
+    if (dependents.length > 0) {
+      setError(`Cannot rename: used by ${dependents.map(definition => definition.name).join(', ')}`);
+      return;
+    }
+    onSave(editingName
+      ? definitions.map(definition => (definition.name === editingName ? saved : definition))
+      : [...definitions, saved]);
+    resetDraft();
+  };
+
+  const handleDelete = (name: string) => {
+    const dependents = definitions.filter(definition => definition.name !== name && referencesOf(definition).includes(name));
+    if (dependents.length > 0) {
+      setError(`Cannot delete ${name}: used by ${dependents.map(definition => definition.name).join(', ')}`);
+      return;
+    }
+    onSave(definitions.filter(definition => definition.name !== name));
+    if (editingName === name) resetDraft();
+  };
+
+  const insertChannel = (channel: string) => {
+    const reference = /^[A-Za-z_][A-Za-z0-9_]*$/.test(channel) ? channel : `[${channel}]`;
+    setDraft(prev => ({ ...prev, expression: `${prev.expression}${reference}` }));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={nativeChannels.length === 0}
+        className="inline-flex items-center gap-2 bg-gray-200 text-gray-800 px-3 py-2 rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:opacity-50"
+      >
+        <Sigma className="w-4 h-4" />
+        Math Channels
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white border border-gray-200 rounded-md shadow-lg p-4 z-20 space-y-4 text-sm">
+          {definitions.length > 0 && (
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded">
+              {definitions.map(definition => (
+                <li key={definition.name} className="flex items-start gap-2 p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-800">
+                      {definition.name}
+                      {definition.unit && <span className="ml-1 text-gray-500">({definition.unit})</span>}
+                    </div>
+                    <div className="font-mono text-xs text-gray-600 break-all">{definition.expression}</div>
+                  </div>
+                  <button
+                    type="button"
+                    aria-label={`Edit ${definition.name}`}
+                    onClick={() => {
+                      setDraft({ unit: '', ...definition });
+                      setEditingName(definition.name);
+                      setError(null);
+                    }}
+                    className="p-1 text-gray-500 hover:text-gray-800"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    aria-label={`Delete ${definition.name}`}
+                    onClick={() => handleDelete(definition.name)}
+                    className="p-1 text-gray-500 hover:text-red-600"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <span className="block font-medium text-gray-700">{editingName ? `Edit ${editingName}` : 'New math channel'}</span>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                placeholder="Name"
+                value={draft.name}
+                onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                className="flex-1 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="text"
+                placeholder="Unit"
+                value={draft.unit ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, unit: e.target.value }))}
+                className="w-20 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <textarea
+              placeholder="e.g. sqrt([Accelerometer X Axis]^2 + [Accelerometer Y Axis]^2)"
+              value={draft.expression}
+              onChange={(e) => setDraft(prev => ({ ...prev, expression: e.target.value }))}
+              rows={3}
+              className="w-full font-mono text-xs border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+            <select
+              value=""
+              onChange={(e) => e.target.value && insertChannel(e.target.value)}
+              className="w-full bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="">Insert channel...</option>
+              {[...nativeChannels, ...others.map(definition => definition.name)].map(channel => (
+                <option key={channel} value={channel}>{channel}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              Operators <code>+ - * / ^</code>, functions <code>abs</code>, <code>sqrt</code>, <code>derivative</code>,{' '}
+              <code>integrate</code> and <code>smooth(x, seconds)</code>. Write channel names with spaces in brackets,
+              e.g. <code>[GPS Speed] * 0.621371</code>.
+            </p>
+          </div>
+
+          {(draftError || error) && <p className="text-red-500">{error ?? draftError}</p>}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!draft.name || !draft.expression || draftError !== null}
+              className="flex-1 bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            >
+              {editingName ? 'Update' : 'Add'}
+            </button>
+            {editingName && (
+              <button
+                type="button"
+                onClick={resetDraft}
+                className="bg-gray-200 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MathChannelEditor;
\ No newline at end of file
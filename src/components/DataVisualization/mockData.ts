@@ -5,6 +5,9 @@ export interface DataPoint {
   sales: number;
   revenue: number;
   units: number;
+  time?: number; // Time in seconds, when label holds another x-axis value (e.g. distance)
+  compare?: number; // Value of the compared lap at the same lap distance, NaN where unknown
+  raw?: number; // Unfiltered value, when the plotted value has been smoothed
 }
 
 // Generate mock data for all timeframes
@@ -0,0 +1,216 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { CHART_HOVER_EVENT } from '../DataVisualization/ChartComponent';
+import { useSyncContext } from '../../contexts/SyncContext';
+import { useLapChannels } from '../../hooks/useLapChannels';
+import { alignChannels } from '../../utils/resample';
+import { getColorForSpeed } from '../../utils/colors';
+import { getChannelUnit } from '../../utils/channelUnits';
+import { computeGGEnvelope, GGPoint } from '../../utils/ggDiagram';
+
+// Vehicle-frame IMU axes: X points forward, Y sideways
+const LONGITUDINAL_CHANNEL = 'Accelerometer X Axis';
+const LATERAL_CHANNEL = 'Accelerometer Y Axis';
+// Speed channels in order of preference
+const SPEED_CHANNELS = ['GPS Speed', 'Speed'];
+
+const size = 360;
+const margin = 36;
+
+interface GGDiagramProps {
+  sessionId: string;
+  selectedLap: number | null;
+  channels: string[];
+}
+
+const GGDiagram: React.FC<GGDiagramProps> = ({ sessionId, selectedLap, channels }) => {
+  const [colorBySpeed, setColorBySpeed] = useState<boolean>(true);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { graphTime, isSyncActive } = useSyncContext();
+
+  const hasAccelerometer = channels.includes(LONGITUDINAL_CHANNEL) && channels.includes(LATERAL_CHANNEL);
+  const speedChannel = SPEED_CHANNELS.find(channel => channels.includes(channel)) ?? null;
+  const requested = hasAccelerometer
+    ? [LATERAL_CHANNEL, LONGITUDINAL_CHANNEL, ...(speedChannel ? [speedChannel] : [])]
+    : [];
+  const { data, isLoading, error } = useLapChannels(sessionId, selectedLap, requested);
+
+  // Lateral and longitudinal samples paired up, with speed when available
+  const points = useMemo((): GGPoint[] => {
+    const lateral = data[LATERAL_CHANNEL];
+    const longitudinal = data[LONGITUDINAL_CHANNEL];
+    if (!lateral || !longitudinal) return [];
+    const rows = alignChannels([lateral, longitudinal]);
+    const speeds = speedChannel && data[speedChannel]
+      ? alignChannels([data[speedChannel]], { timestamps: rows.map(row => row.s), keepIncomplete: true })
+      : [];
+    return rows.map((row, i) => ({
+      time: row.s,
+      lateral: row.values[0],
+      longitudinal: row.values[1],
+      speed: speeds[i]?.values[0],
+    }));
+  }, [data, speedChannel]);
+
+  const envelope = useMemo(() => computeGGEnvelope(points), [points]);
+
+  // Follow the hover cursor of the charts and the map
+  useEffect(() => {
+    const handleHover = (event: Event) => {
+      setHoverTime((event as CustomEvent<{ time: number | null }>).detail.time);
+    };
+    document.addEventListener(CHART_HOVER_EVENT, handleHover);
+    return () => document.removeEventListener(CHART_HOVER_EVENT, handleHover);
+  }, []);
+
+  const cursorTime = isSyncActive && graphTime !== null ? graphTime : hoverTime;
+
+  if (!hasAccelerometer) {
+    return null;
+  }
+
+  // Symmetric axes in half-g steps that fit every sample
+  const maxG = Math.max(0.5, Math.ceil(Math.max(0, ...points.map(p => Math.max(Math.abs(p.lateral), Math.abs(p.longitudinal)))) * 2) / 2);
+  const plotSize = size - margin * 2;
+  const toX = (lateral: number) => margin + ((lateral + maxG) / (2 * maxG)) * plotSize;
+  const toY = (longitudinal: number) => margin + ((maxG - longitudinal) / (2 * maxG)) * plotSize;
+  const rings = Array.from({ length: Math.round(maxG / 0.5) }, (_, i) => (i + 1) * 0.5);
+
+  const speeds = points.map(point => point.speed).filter((speed): speed is number => Number.isFinite(speed));
+  const minSpeed = speeds.length > 0 ? Math.min(...speeds) : 0;
+  const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : 1;
+  const showSpeedColors = colorBySpeed && speeds.length > 0;
+
+  let cursorPoint: GGPoint | undefined;
+  if (cursorTime !== null) {
+    points.forEach(point => {
+      if (!cursorPoint || Math.abs(point.time - cursorTime) < Math.abs(cursorPoint.time - cursorTime)) cursorPoint = point;
+    });
+  }
+
+  // Hovering the diagram moves the shared cursor to the nearest sample
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (points.length === 0 || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * size;
+    const y = ((event.clientY - rect.top) / rect.height) * size;
+    let nearest = points[0];
+    let nearestDistance = Infinity;
+    points.forEach(point => {
+      const distance = Math.hypot(toX(point.lateral) - x, toY(point.longitudinal) - y);
+      if (distance < nearestDistance) {
+        nearest = point;
+        nearestDistance = distance;
+      }
+    });
+    if (nearestDistance > 20) return; // Too far from any sample
+    setHoverTime(nearest.time);
+    document.dispatchEvent(new CustomEvent(CHART_HOVER_EVENT, {
+      detail: { time: nearest.time, userInitiated: true }
+    }));
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="h-full flex items-center justify-center"><LoadingSpinner /></div>;
+    }
+    if (error) {
+      return <div className="h-full flex items-center justify-center text-red-500">Failed to load accelerometer data. Please try again.</div>;
+    }
+    if (points.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-500">No accelerometer data for this lap</div>;
+    }
+    return (
+      <svg ref={svgRef} viewBox={`0 0 ${size} ${size}`} className="w-full h-full" onMouseMove={handleMouseMove}>
+        {rings.map(ring => (
+          <g key={ring}>
+            <circle cx={toX(0)} cy={toY(0)} r={(ring / (2 * maxG)) * plotSize} fill="none" stroke="#E5E7EB" strokeWidth="1" />
+            <text x={toX(ring) + 2} y={toY(0) - 2} fontSize="10" fill="#9CA3AF">{ring}g</text>
+          </g>
+        ))}
+        <line x1={toX(-maxG)} y1={toY(0)} x2={toX(maxG)} y2={toY(0)} stroke="#D1D5DB" strokeWidth="1" />
+        <line x1={toX(0)} y1={toY(-maxG)} x2={toX(0)} y2={toY(maxG)} stroke="#D1D5DB" strokeWidth="1" />
+
+        {points.map((point, i) => (
+          <circle
+            key={i}
+            cx={toX(point.lateral)}
+            cy={toY(point.longitudinal)}
+            r="1.5"
+            fill={showSpeedColors && point.speed !== undefined && Number.isFinite(point.speed)
+              ? getColorForSpeed(point.speed, minSpeed, maxSpeed)
+              : '#3B82F6'}
+            opacity="0.6"
+          />
+        ))}
+
+        {envelope && (
+          <polygon
+            points={envelope.outline.map(vertex => `${toX(vertex.lateral)},${toY(vertex.longitudinal)}`).join(' ')}
+            fill="none"
+            stroke="#111827"
+            strokeWidth="1.5"
+            strokeLinejoin="round"
+          />
+        )}
+
+        {cursorPoint && (
+          <circle cx={toX(cursorPoint.lateral)} cy={toY(cursorPoint.longitudinal)} r="6" fill="#FFFFFF" stroke="#111827" strokeWidth="2" />
+        )}
+
+        <text x={size / 2} y={size - 8} textAnchor="middle" fontSize="12" fill="#6B7280">Lateral (g)</text>
+        <text x={12} y={size / 2} textAnchor="middle" fontSize="12" fill="#6B7280" transform={`rotate(-90 12 ${size / 2})`}>
+          Longitudinal (g)
+        </text>
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">G-G Diagram</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={colorBySpeed}
+            onChange={(e) => setColorBySpeed(e.target.checked)}
+            disabled={!speedChannel}
+          />
+          Colour by speed
+        </label>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-6">
+        <div className="w-full max-w-sm aspect-square">
+          {renderBody()}
+        </div>
+        <div className="text-sm text-gray-700 space-y-2">
+          {envelope && (
+            <>
+              <div>Peak combined: <span className="font-mono">{envelope.peak.toFixed(2)}g</span></div>
+              <div title="Area inside the envelope compared with a circle of the peak combined acceleration">
+                Grip circle used: <span className="font-mono">{Math.round(envelope.utilisation * 100)}%</span>
+              </div>
+            </>
+          )}
+          {cursorPoint && (
+            <div className="font-mono text-xs text-gray-600">
+              {cursorPoint.time.toFixed(2)}s: {cursorPoint.lateral.toFixed(2)}g lat, {cursorPoint.longitudinal.toFixed(2)}g long
+            </div>
+          )}
+          {showSpeedColors && (
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span>{minSpeed.toFixed(0)}</span>
+              <span className="w-24 h-2 rounded" style={{ background: 'linear-gradient(to right, #ff0000, #00ff00)' }} />
+              <span>{maxSpeed.toFixed(0)} {speedChannel && getChannelUnit(speedChannel)}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GGDiagram;
\ No newline at end of file
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Satellite } from 'lucide-react';
+import { DopChannel, GpsQuality, GpsQualityThresholds, isLapGpsFlagged } from '../../utils/gpsQuality';
+
+interface GpsQualityPanelProps {
+  laps: number[];
+  qualityByLap: Record<number, GpsQuality>;
+  dopChannels: DopChannel[];
+  thresholds: GpsQualityThresholds;
+  onThresholdsChange: (thresholds: GpsQualityThresholds) => void;
+  excludeFlagged: boolean;
+  onExcludeFlaggedChange: (exclude: boolean) => void;
+  selectedLap: number | null;
+  onLapSelect: (lap: number) => void;
+  isLoading: boolean;
+}
+
+const inputClass = 'w-20 bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const GpsQualityPanel: React.FC<GpsQualityPanelProps> = ({
+  laps,
+  qualityByLap,
+  dopChannels,
+  thresholds,
+  onThresholdsChange,
+  excludeFlagged,
+  onExcludeFlaggedChange,
+  selectedLap,
+  onLapSelect,
+  isLoading
+}) => {
+  const flaggedLaps = laps.filter(lap => qualityByLap[lap] && isLapGpsFlagged(qualityByLap[lap], thresholds));
+
+  // Only positive limits are accepted
+  const parseLimit = (text: string): number | null => {
+    const value = parseFloat(text);
+    return value > 0 ? value : null;
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Satellite className="w-5 h-5 text-gray-500" />
+          GPS quality
+        </h2>
+        <span className="text-sm text-gray-500">
+          {isLoading ? 'Checking laps...' : `${flaggedLaps.length} of ${laps.length} laps flagged`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4 text-sm text-gray-700">
+        {dopChannels.map(channel => (
+          <label key={channel} className="flex flex-col gap-1">
+            Max {channel}
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={thresholds.maxDop[channel]}
+              onChange={(e) => {
+                const value = parseLimit(e.target.value);
+                if (value !== null) onThresholdsChange({ ...thresholds, maxDop: { ...thresholds.maxDop, [channel]: value } });
+              }}
+              className={inputClass}
+            />
+          </label>
+        ))}
+        <label className="flex flex-col gap-1">
+          Max jump speed (m/s)
+          <input
+            type="number"
+            min="0"
+            step="10"
+            value={thresholds.maxJumpSpeed}
+            onChange={(e) => {
+              const value = parseLimit(e.target.value);
+              if (value !== null) onThresholdsChange({ ...thresholds, maxJumpSpeed: value });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Min lap score (%)
+          <input
+            type="number"
+            min="0"
+            max="100"
+            step="1"
+            value={thresholds.minLapScore}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              if (value >= 0 && value <= 100) onThresholdsChange({ ...thresholds, minLapScore: value });
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 pb-1">
+          <input
+            type="checkbox"
+            checked={excludeFlagged}
+            onChange={(e) => onExcludeFlaggedChange(e.target.checked)}
+          />
+          Exclude flagged laps from best-lap comparisons
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {laps.map(lap => {
+          const quality = qualityByLap[lap];
+          const isFlagged = quality !== undefined && isLapGpsFlagged(quality, thresholds);
+          return (
+            <button
+              key={lap}
+              type="button"
+              onClick={() => onLapSelect(lap)}
+              title={quality ? `${quality.flaggedSeconds.toFixed(1)}s with an untrusted fix` : undefined}
+              className={`px-2 py-1 rounded-md text-xs border ${
+                isFlagged ? 'bg-red-50 border-red-200 text-red-700' : 'bg-gray-50 border-gray-200 text-gray-700'
+              } ${lap === selectedLap ? 'ring-2 ring-blue-500' : ''}`}
+            >
+              Lap {lap}: {quality ? `${Math.floor(quality.score)}%` : '-'}
+            </button>
+          );
+        })}
+      </div>
+
+      {dopChannels.length === 0 && (
+        <p className="mt-3 text-xs text-gray-500">The session has no DOP channels, so only position jumps are checked.</p>
+      )}
+    </div>
+  );
+};
+
+export default GpsQualityPanel;
\ No newline at end of file
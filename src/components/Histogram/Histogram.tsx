@@ -0,0 +1,260 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import LapToggleGroup from '../common/LapToggleGroup';
+import { useMultiLapChannels } from '../../hooks/useMultiLapChannels';
+import { SERIES_COLORS } from '../../utils/colors';
+import { getChannelUnit } from '../../utils/channelUnits';
+import { computeTimeHistogram, suggestBinWidth, timeAbove, timeWeightedPercentile } from '../../utils/histogram';
+
+const width = 640;
+const height = 300;
+const margin = { top: 16, right: 20, bottom: 40, left: 56 };
+
+const DEFAULT_PERCENTILES = '50, 90, 99';
+// Narrower bins than this many over the value range are refused
+const MAX_BINS = 500;
+
+interface HistogramProps {
+  sessionId: string;
+  channels: string[];
+  lapOptions: number[];
+  selectedLap: number | null;
+}
+
+// Parses "50, 90, 99" into valid percentiles, ignoring anything else
+const parsePercentiles = (text: string): number[] =>
+  [...new Set(text.split(/[\s,]+/).filter(Boolean).map(Number).filter(value => value >= 0 && value <= 100))]
+    .sort((a, b) => a - b);
+
+const formatValue = (value: number) => (Number.isFinite(value) ? `${Math.round(value * 100) / 100}` : '-');
+
+const Histogram: React.FC<HistogramProps> = ({
+  sessionId,
+  channels,
+  lapOptions,
+  selectedLap
+}) => {
+  const [channel, setChannel] = useState<string>('');
+  const [laps, setLaps] = useState<number[]>([]);
+  const [binWidthInput, setBinWidthInput] = useState<string>(''); // Empty picks a width automatically
+  const [percentileInput, setPercentileInput] = useState<string>(DEFAULT_PERCENTILES);
+  const [thresholdInput, setThresholdInput] = useState<string>('');
+
+  useEffect(() => {
+    if (channels.length === 0) return;
+    setChannel(prev => (prev && channels.includes(prev)) ? prev : (channels.includes('RPM') ? 'RPM' : channels[0]));
+  }, [channels]);
+
+  // Default to the selected lap when none of the picked laps remain
+  useEffect(() => {
+    setLaps(prev => {
+      const kept = prev.filter(lap => lapOptions.includes(lap));
+      if (kept.length > 0) return kept;
+      return selectedLap !== null ? [selectedLap] : [];
+    });
+  }, [lapOptions, selectedLap]);
+
+  const { data, isLoading, error } = useMultiLapChannels(sessionId, laps, channel ? [channel] : []);
+  const seriesByLap = useMemo(
+    () => laps.map(lap => ({ lap, series: data[lap]?.[channel] ?? [] })).filter(entry => entry.series.length > 0),
+    [data, laps, channel]
+  );
+
+  // Range shared by every lap so their bins line up
+  const valueRange = useMemo((): [number, number] | null => {
+    const values = seriesByLap.flatMap(entry => entry.series.map(point => point.d)).filter(value => Number.isFinite(value));
+    if (values.length === 0) return null;
+    return [Math.min(...values), Math.max(...values)];
+  }, [seriesByLap]);
+
+  const parsedBinWidth = parseFloat(binWidthInput);
+  const isBinWidthTooSmall = parsedBinWidth > 0 && valueRange !== null && (valueRange[1] - valueRange[0]) / parsedBinWidth > MAX_BINS;
+  const binWidth = parsedBinWidth > 0 && !isBinWidthTooSmall
+    ? parsedBinWidth
+    : valueRange ? suggestBinWidth(valueRange[0], valueRange[1]) : 1;
+  const percentiles = useMemo(() => parsePercentiles(percentileInput), [percentileInput]);
+  const threshold = thresholdInput.trim() === '' ? null : parseFloat(thresholdInput);
+
+  const histograms = useMemo(
+    () => (valueRange ? seriesByLap.map(entry => ({ lap: entry.lap, bins: computeTimeHistogram(entry.series, binWidth, valueRange) })) : []),
+    [seriesByLap, binWidth, valueRange]
+  );
+
+  const stats = useMemo(() => seriesByLap.map(entry => ({
+    lap: entry.lap,
+    percentiles: percentiles.map(p => timeWeightedPercentile(entry.series, p)),
+    above: threshold !== null && Number.isFinite(threshold) ? timeAbove(entry.series, threshold) : null,
+  })), [seriesByLap, percentiles, threshold]);
+
+  const unit = channel ? getChannelUnit(channel) : null;
+  const lapColor = (lap: number) => SERIES_COLORS[laps.indexOf(lap) % SERIES_COLORS.length];
+
+  const renderChart = () => {
+    if (isLoading) {
+      return <div className="h-full flex items-center justify-center"><LoadingSpinner /></div>;
+    }
+    if (error) {
+      return <div className="h-full flex items-center justify-center text-red-500">Failed to load channel data. Please try again.</div>;
+    }
+    if (histograms.length === 0 || histograms[0].bins.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-500">Pick a channel and at least one lap</div>;
+    }
+
+    const bins = histograms[0].bins;
+    const minX = bins[0].start;
+    const maxX = bins[bins.length - 1].end;
+    const maxSeconds = Math.max(0.001, ...histograms.flatMap(histogram => histogram.bins.map(bin => bin.seconds)));
+    const plotWidth = width - margin.left - margin.right;
+    const plotHeight = height - margin.top - margin.bottom;
+    const toX = (value: number) => margin.left + ((value - minX) / (maxX - minX)) * plotWidth;
+    const toY = (seconds: number) => margin.top + plotHeight - (seconds / maxSeconds) * plotHeight;
+    // Label about eight bin edges whatever the bin count
+    const labelEvery = Math.max(1, Math.ceil(bins.length / 8));
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-full">
+        <line x1={margin.left} y1={toY(0)} x2={margin.left + plotWidth} y2={toY(0)} stroke="#E5E7EB" />
+        <line x1={margin.left} y1={margin.top} x2={margin.left} y2={toY(0)} stroke="#E5E7EB" />
+        {[0, maxSeconds / 2, maxSeconds].map(tick => (
+          <text key={tick} x={margin.left - 8} y={toY(tick)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6B7280">
+            {tick.toFixed(1)}s
+          </text>
+        ))}
+        {bins.map((bin, i) => i % labelEvery === 0 && (
+          <text key={bin.start} x={toX(bin.start)} y={toY(0) + 16} textAnchor="middle" fontSize="11" fill="#6B7280">
+            {formatValue(bin.start)}
+          </text>
+        ))}
+        <text x={margin.left + plotWidth / 2} y={height - 4} textAnchor="middle" fontSize="12" fill="#374151">
+          {unit ? `${channel} (${unit})` : channel}
+        </text>
+
+        {histograms.map(histogram => {
+          // Stepped outline of the lap's bins
+          const path = histogram.bins
+            .map(bin => `L${toX(bin.start)} ${toY(bin.seconds)} L${toX(bin.end)} ${toY(bin.seconds)}`)
+            .join(' ');
+          return (
+            <path
+              key={histogram.lap}
+              d={`M${toX(minX)} ${toY(0)} ${path} L${toX(maxX)} ${toY(0)} Z`}
+              fill={lapColor(histogram.lap)}
+              fillOpacity={histograms.length > 1 ? 0.2 : 0.5}
+              stroke={lapColor(histogram.lap)}
+              strokeWidth="1.5"
+            />
+          );
+        })}
+
+        {stats.map(entry => entry.percentiles.map((value, i) => Number.isFinite(value) && (
+          <line
+            key={`${entry.lap}-${percentiles[i]}`}
+            x1={toX(value)}
+            y1={margin.top}
+            x2={toX(value)}
+            y2={toY(0)}
+            stroke={lapColor(entry.lap)}
+            strokeDasharray="4 3"
+          >
+            <title>{`Lap ${entry.lap} P${percentiles[i]}: ${formatValue(value)}`}</title>
+          </line>
+        )))}
+
+        {threshold !== null && Number.isFinite(threshold) && threshold >= minX && threshold <= maxX && (
+          <line x1={toX(threshold)} y1={margin.top} x2={toX(threshold)} y2={toY(0)} stroke="#111827" strokeWidth="1.5" />
+        )}
+      </svg>
+    );
+  };
+
+  const inputClass = 'bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <h2 className="text-lg font-semibold text-gray-800 mb-4">Histogram</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4 text-sm">
+        <label className="flex flex-col gap-1 text-gray-700">
+          Channel
+          <select value={channel} onChange={(e) => setChannel(e.target.value)} className={inputClass}>
+            {channels.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          Bin width {unit && `(${unit})`}
+          <input
+            type="number"
+            min="0"
+            step="any"
+            placeholder={`Auto (${formatValue(binWidth)})`}
+            value={binWidthInput}
+            onChange={(e) => setBinWidthInput(e.target.value)}
+            className={inputClass}
+          />
+          {isBinWidthTooSmall && <span className="text-xs text-red-500">Too narrow, using {formatValue(binWidth)}</span>}
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          Percentiles
+          <input
+            type="text"
+            value={percentileInput}
+            onChange={(e) => setPercentileInput(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          Time above {unit && `(${unit})`}
+          <input
+            type="number"
+            step="any"
+            placeholder="e.g. 14000"
+            value={thresholdInput}
+            onChange={(e) => setThresholdInput(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <LapToggleGroup lapOptions={lapOptions} laps={laps} onChange={setLaps} />
+      </div>
+
+      <div className="h-72">
+        {renderChart()}
+      </div>
+
+      {stats.length > 0 && (
+        <div className="overflow-x-auto mt-4">
+          <table className="min-w-full text-sm">
+            <thead className="border-b border-gray-200">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium text-gray-700">Lap</th>
+                {percentiles.map(p => (
+                  <th key={p} className="px-3 py-2 text-right font-medium text-gray-700">P{p}</th>
+                ))}
+                {threshold !== null && Number.isFinite(threshold) && (
+                  <th className="px-3 py-2 text-right font-medium text-gray-700">Above {formatValue(threshold)}</th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {stats.map(entry => (
+                <tr key={entry.lap} className="border-b border-gray-100">
+                  <td className="px-3 py-2 font-medium" style={{ color: lapColor(entry.lap) }}>{entry.lap}</td>
+                  {entry.percentiles.map((value, i) => (
+                    <td key={percentiles[i]} className="px-3 py-2 text-right font-mono">{formatValue(value)}</td>
+                  ))}
+                  {entry.above !== null && (
+                    <td className="px-3 py-2 text-right font-mono">{entry.above.toFixed(2)}s</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Histogram;
\ No newline at end of file
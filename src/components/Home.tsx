@@ -1,10 +1,34 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { parseTelemetryCsv } from '../api/telemetryImport';
+import { registerLocalSession } from '../api/sessionDataSource';
 
 const Home: React.FC = () => {
   const [sessionId, setSessionId] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const navigate = useNavigate();
 
+  // Parse a datalogger CSV export in the browser and open it as a local session
+  const handleFileImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file after an error
+    if (!file) return;
+
+    setIsImporting(true);
+    setImportError(null);
+    try {
+      const text = await file.text();
+      const session = parseTelemetryCsv(text, file.name, new Date(file.lastModified));
+      navigate(`/${registerLocalSession(session)}`);
+    } catch (err) {
+      console.error("Error importing telemetry file:", err);
+      setImportError(err instanceof Error ? err.message : 'Failed to import file');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (sessionId.trim()) {
@@ -55,6 +79,26 @@ const Home: React.FC = () => {
             </button>
           </div>
         </form>
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <label htmlFor="telemetryFile" className="block text-sm font-medium text-gray-700 mb-1">
+            Import Telemetry File
+          </label>
+          <p className="text-sm text-gray-600 mb-3">
+            Open a CSV export from AiM RaceStudio, RaceChrono or Alfano. The file is processed in your browser.
+          </p>
+          <input
+            type="file"
+            id="telemetryFile"
+            accept=".csv,text/csv"
+            onChange={handleFileImport}
+            disabled={isImporting}
+            className="block w-full text-sm text-gray-700 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-gray-200 file:text-gray-800 hover:file:bg-gray-300"
+          />
+          {importError && (
+            <p className="mt-2 text-sm text-red-600" role="alert">{importError}</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import { ChevronUp, ChevronDown } from 'lucide-react';
+import { SessionData } from '../../api/sessionApi';
+import { LapTimeline, LapTiming } from '../../utils/lapTimeline';
+import { buildLapRecords, TimeHighlight } from '../../utils/lapRecords';
+import { formatLapTime, parseTimeSpan } from '../../utils/time';
+
+interface LapTableProps {
+  sessionData: SessionData;
+  lapTimeline: LapTimeline;
+  selectedLap: number | null;
+  onLapSelect: (lap: number) => void;
+}
+
+// Column the table is sorted by: lap number, lap time or a sector number
+type SortKey = 'lap' | 'time' | number;
+
+const highlightClasses: Record<Exclude<TimeHighlight, null>, string> = {
+  'session-best': 'bg-purple-100 text-purple-800 font-semibold',
+  'personal-best': 'bg-green-100 text-green-800',
+};
+
+const getSortValue = (lap: LapTiming, key: SortKey): number => {
+  if (key === 'lap') return lap.lap;
+  const time = key === 'time' ? lap.duration : lap.sectors.find(split => split.sector === key)?.duration ?? 0;
+  // Laps without a time sort last
+  return time > 0 ? time : Infinity;
+};
+
+const LapTable: React.FC<LapTableProps> = ({
+  sessionData,
+  lapTimeline,
+  selectedLap,
+  onLapSelect
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('lap');
+  const [sortAscending, setSortAscending] = useState<boolean>(true);
+
+  const records = useMemo(() => buildLapRecords(lapTimeline), [lapTimeline]);
+
+  const sortedLaps = useMemo(() => {
+    const direction = sortAscending ? 1 : -1;
+    return [...lapTimeline.laps].sort((a, b) => {
+      const aValue = getSortValue(a, sortKey);
+      const bValue = getSortValue(b, sortKey);
+      // Untimed laps stay at the bottom whichever way the column is sorted
+      if (aValue === Infinity || bValue === Infinity) return Number(aValue === Infinity) - Number(bValue === Infinity);
+      return (aValue - bValue) * direction;
+    });
+  }, [lapTimeline, sortKey, sortAscending]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(ascending => !ascending);
+    } else {
+      setSortKey(key);
+      setSortAscending(true);
+    }
+  };
+
+  const formatTime = (time: number | null | undefined) => (time && time > 0 ? formatLapTime(time) : '-');
+
+  const renderHeader = (key: SortKey, label: string) => (
+    <th className="px-3 py-2 text-left font-medium text-gray-700">
+      <button type="button" onClick={() => handleSort(key)} className="inline-flex items-center gap-1 hover:text-blue-600">
+        {label}
+        {sortKey === key && (sortAscending ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  const renderTimeCell = (time: number | undefined, highlight: TimeHighlight) => (
+    <td className="px-3 py-2 font-mono">
+      <span className={`px-1 rounded ${highlight ? highlightClasses[highlight] : ''}`}>{formatTime(time)}</span>
+    </td>
+  );
+
+  // Session figures reported by LapViz, shown next to the recomputed theoretical best
+  const reportedBest = parseTimeSpan(sessionData.best);
+  const reportedRolling = parseTimeSpan(sessionData.rolling);
+  const reportedTheoretical = parseTimeSpan(sessionData.theorical);
+
+  if (lapTimeline.laps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Lap Times</h2>
+        <div className="flex gap-4 text-sm text-gray-600">
+          <span>Best: <span className="font-mono">{formatTime(reportedBest ?? records.bestLapTime)}</span></span>
+          {reportedRolling !== null && (
+            <span>Rolling: <span className="font-mono">{formatTime(reportedRolling)}</span></span>
+          )}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead className="border-b border-gray-200">
+            <tr>
+              {renderHeader('lap', 'Lap')}
+              {renderHeader('time', 'Lap Time')}
+              {records.sectorNumbers.map(sector => (
+                <React.Fragment key={sector}>{renderHeader(sector, `S${sector}`)}</React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedLaps.map(lap => (
+              <tr
+                key={lap.lap}
+                onClick={() => onLapSelect(lap.lap)}
+                className={`border-b border-gray-100 cursor-pointer ${lap.lap === selectedLap ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+              >
+                <td className="px-3 py-2 font-medium">{lap.lap}</td>
+                {renderTimeCell(lap.duration, records.getLapHighlight(lap.lap))}
+                {records.sectorNumbers.map(sector => (
+                  <React.Fragment key={sector}>
+                    {renderTimeCell(
+                      lap.sectors.find(split => split.sector === sector)?.duration,
+                      records.getSectorHighlight(lap.lap, sector)
+                    )}
+                  </React.Fragment>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="bg-gray-50 text-gray-700">
+              <td className="px-3 py-2 font-medium">Theoretical</td>
+              <td
+                className="px-3 py-2 font-mono font-semibold"
+                title={reportedTheoretical !== null ? `Reported by LapViz: ${formatLapTime(reportedTheoretical)}` : undefined}
+              >
+                {formatTime(records.theoreticalBest)}
+              </td>
+              {records.sectorNumbers.map(sector => (
+                <td key={sector} className="px-3 py-2 font-mono">{formatTime(records.bestSectorTimes.get(sector))}</td>
+              ))}
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      <div className="flex gap-4 mt-3 text-xs text-gray-500">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-purple-100 border border-purple-300" /> Session best</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-100 border border-green-300" /> Personal best at the time</span>
+      </div>
+    </div>
+  );
+};
+
+export default LapTable;
\ No newline at end of file
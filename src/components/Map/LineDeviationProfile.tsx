@@ -0,0 +1,90 @@
+import React from 'react';
+import { CHART_HOVER_EVENT } from '../DataVisualization/ChartComponent';
+import { LineDeviationPoint } from '../../utils/lineDeviation';
+
+const width = 600;
+const height = 80;
+
+interface LineDeviationProfileProps {
+  points: LineDeviationPoint[];
+  referenceLap: number;
+  cursorTime: number | null;
+}
+
+const formatOffset = (offset: number) =>
+  Number.isFinite(offset) ? `${Math.abs(offset).toFixed(1)}m ${offset >= 0 ? 'left' : 'right'}` : 'no match';
+
+const LineDeviationProfile: React.FC<LineDeviationProfileProps> = ({ points, referenceLap, cursorTime }) => {
+  if (!points.some(point => Number.isFinite(point.offset))) return null;
+
+  const maxDistance = points[points.length - 1].distance || 1;
+  // Symmetric scale so left and right read the same, at least ±2 m
+  const matched = points.filter(point => Number.isFinite(point.offset));
+  const maxOffset = Math.max(2, ...matched.map(point => Math.abs(point.offset)));
+  const toX = (distance: number) => (distance / maxDistance) * width;
+  const toY = (offset: number) => height / 2 - (offset / maxOffset) * (height / 2);
+  // Unmatched points break the line rather than being drawn
+  const path = points
+    .map((point, i) => {
+      if (!Number.isFinite(point.offset)) return '';
+      const command = i === 0 || !Number.isFinite(points[i - 1].offset) ? 'M' : 'L';
+      return `${command}${toX(point.distance)} ${toY(point.offset)}`;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  let cursorPoint: LineDeviationPoint | undefined;
+  if (cursorTime !== null) {
+    points.forEach(point => {
+      if (!cursorPoint || Math.abs(point.time - cursorTime) < Math.abs(cursorPoint.time - cursorTime)) cursorPoint = point;
+    });
+  }
+
+  // Hovering the profile moves the shared cursor along the lap
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const distance = ((event.clientX - rect.left) / rect.width) * maxDistance;
+    const nearest = points.reduce((best, point) =>
+      Math.abs(point.distance - distance) < Math.abs(best.distance - distance) ? point : best);
+    document.dispatchEvent(new CustomEvent(CHART_HOVER_EVENT, {
+      detail: { time: nearest.time, userInitiated: true }
+    }));
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-baseline justify-between text-xs text-gray-600 mb-1">
+        <span>Line offset from lap {referenceLap}</span>
+        <span className="font-mono">
+          {cursorPoint ? `${formatOffset(cursorPoint.offset)} at ${cursorPoint.distance.toFixed(0)}m` : `max ±${maxOffset.toFixed(1)}m`}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 bg-gray-50 rounded"
+        onMouseMove={handleMouseMove}
+      >
+        <line x1="0" y1={toY(0)} x2={width} y2={toY(0)} stroke="#9CA3AF" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+        <path d={path} fill="none" stroke="#374151" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        {cursorPoint && (
+          <line
+            x1={toX(cursorPoint.distance)}
+            y1="0"
+            x2={toX(cursorPoint.distance)}
+            y2={height}
+            stroke="#3B82F6"
+            strokeWidth="1"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>Left of lap {referenceLap} above, right below</span>
+        <span>{Math.round(maxDistance)}m</span>
+      </div>
+    </div>
+  );
+};
+
+export default LineDeviationProfile;
\ No newline at end of file
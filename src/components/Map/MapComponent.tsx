@@ -1,8 +1,21 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Download } from 'lucide-react';
 import LoadingSpinner from '../common/LoadingSpinner';
-import { fetchLapTrackPath, TrackPathPoint } from '../../api/sessionApi';
+import { fetchLapTrackPath, fetchLapChannelData, ChannelDataPoint, TrackPathPoint } from '../../api/sessionApi';
+import { isAbortError } from '../../api/http';
 import { CHART_HOVER_EVENT } from '../DataVisualization/ChartComponent';
 import { useSyncContext } from '../../contexts/SyncContext';
+import { resampleSeries } from '../../utils/resample';
+import { COLOR_SCALES, ColorScaleName, DRIVING_EVENT_COLORS, getScaleColor, getScaleDomain, getScaleGradient } from '../../utils/colors';
+import { getChannelUnit } from '../../utils/channelUnits';
+import { buildGpx, buildKml } from '../../utils/trackExport';
+import { downloadFile } from '../../utils/exportData';
+import { CornerMetrics } from '../../utils/corners';
+import { DrivingEvent, describeDrivingEvent } from '../../utils/drivingEvents';
+import { GpsFlaggedRange } from '../../utils/gpsQuality';
+import { LapTimeRange } from '../../utils/scatter';
+import { computeLineDeviation } from '../../utils/lineDeviation';
+import LineDeviationProfile from './LineDeviationProfile';
 
 interface MapComponentProps {
   sessionId: string;
@@ -12,13 +25,20 @@ interface MapComponentProps {
     lng: number | null;
     zoom?: number | null;
   };
+  sessionStart?: string | null;   // ISO session start, for GPX timestamps
+  lapStartSecond?: number | null; // Selected lap's start offset from the session start, in seconds
+  cornerMetrics?: CornerMetrics[]; // Selected lap's corners, labelled at their apex
+  drivingEvents?: DrivingEvent[];   // Selected lap's braking and throttle points
+  gpsFlaggedRanges?: GpsFlaggedRange[]; // Stretches of the selected lap with an untrusted GPS fix
+  highlightRanges?: LapTimeRange[]; // Stretches of any lap to highlight on the track
+  channels?: string[];              // Channels the racing line can be coloured by
+  lapOptions?: number[];            // Laps whose line can be overlaid for comparison
+  fastestLap?: number | null;
+  onColorChannelChange?: (channel: string) => void; // Lets the dashboard prefetch the colour channel
 }
 
-// Speed data interface
-interface SpeedDataPoint {
-  s: number; // time/distance
-  d: number; // speed value
-}
+// Channel the racing line is coloured by until the user picks another; also used for KML export
+const SPEED_CHANNEL = 'GPS Speed';
 
 // Module-level promise to ensure the API is loaded only once
 let loadGoogleMapsAPIPromise: Promise<void> | null = null;
@@ -31,20 +51,6 @@ const getLoadGoogleMapsPromise = () => {
   return loadGoogleMapsAPIPromise;
 };
 
-// Function to fetch speed data from the API
-const fetchSpeedData = async (sessionId: string, lapNumber: number): Promise<SpeedDataPoint[]> => {
-  try {
-    const response = await fetch(`https://lapviz.com/api/Session/data/${sessionId}/${lapNumber}/GPS%20Speed`);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch speed data: ${response.status}`);
-    }
-    return await response.json();
-  } catch (error) {
-    console.error('Error fetching speed data:', error);
-    throw error;
-  }
-};
-
 // Function to load the Google Maps API script
 const loadScript = (): Promise<void> => {
   return new Promise((resolve, reject) => {
@@ -75,16 +81,26 @@ const loadScript = (): Promise<void> => {
   });
 };
 
-const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, circuitLocation }) => {
+const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, circuitLocation, sessionStart, lapStartSecond, cornerMetrics, drivingEvents, gpsFlaggedRanges, highlightRanges, channels = [], lapOptions = [], fastestLap = null, onColorChannelChange }) => {
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [trackPath, setTrackPath] = useState<TrackPathPoint[]>([]);
-  const [speedData, setSpeedData] = useState<SpeedDataPoint[]>([]);
+  const [colorChannel, setColorChannel] = useState<string>(SPEED_CHANNEL);
+  const [colorScale, setColorScale] = useState<ColorScaleName>('red-green');
+  const [colorData, setColorData] = useState<ChannelDataPoint[]>([]);
+  // Second lap whose racing line is overlaid, dashed, for line comparison
+  const [lineCompareLap, setLineCompareLap] = useState<number | null>(null);
+  const [comparePath, setComparePath] = useState<TrackPathPoint[]>([]);
+  const compareLineRef = useRef<google.maps.Polyline | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<google.maps.Map | null>(null);
   const trackPathRef = useRef<google.maps.Polyline[] | null>(null);
   const hoverMarkerRef = useRef<google.maps.Marker | null>(null);
+  const cornerMarkersRef = useRef<google.maps.Marker[]>([]);
+  const eventMarkersRef = useRef<google.maps.Marker[]>([]);
+  const gpsFlagPolylinesRef = useRef<google.maps.Polyline[]>([]);
+  const highlightPolylinesRef = useRef<google.maps.Polyline[]>([]);
   
   // Consume SyncContext
   const { graphTime: syncedGraphTime, isSyncActive } = useSyncContext();
@@ -358,20 +374,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
     }
   };
 
-  // Function to convert speed to color (red to green gradient)
-  const getColorForSpeed = (speed: number, minSpeed: number, maxSpeed: number): string => {
-    // Normalize speed between 0 and 1
-    const normalizedSpeed = Math.min(Math.max((speed - minSpeed) / (maxSpeed - minSpeed), 0), 1);
-    
-    // Convert to RGB values (red to green gradient)
-    const r = Math.round(255 * (1 - normalizedSpeed));
-    const g = Math.round(255 * normalizedSpeed);
-    const b = 0;
-    
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-  };
-
-  // Function to render the track path on the map with color gradient based on speed
+  // Function to render the track path on the map with a color gradient based on the colour channel
   const renderTrackPath = (shouldFitBounds: boolean) => {
     if (!mapInstanceRef.current || !isMapReadyForDrawing || trackPath.length === 0) { // Check isMapReadyForDrawing
       console.log("RenderTrackPath: Conditions not met (map instance, map ready, or track path)", 
@@ -391,23 +394,15 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
       lng: point.lng
     }));
 
-    // If we have speed data, use it to color the path
-    if (speedData.length > 0) {
-      // Find min and max speed values
-      const speeds = speedData.map(point => point.d);
-      const minSpeed = Math.min(...speeds);
-      const maxSpeed = Math.max(...speeds);
-
-      // If we have fewer speed points than track points, we'll need to approximate
-      // Here we'll assume speed points and track points roughly correspond by index
-      // A more accurate approach would be to match by timestamp or distance
+    // If we have data for the colour channel, use it to color the path
+    if (colorValues && colorRange) {
+      const [minValue, maxValue] = colorRange;
       
       // Create colored segments
       for (let i = 0; i < pathCoordinates.length - 1; i++) {
-        // Get corresponding speed index, considering possible length difference
-        const speedIndex = Math.min(i, speedData.length - 1);
-        const speed = speedData[speedIndex].d;
-        const color = getColorForSpeed(speed, minSpeed, maxSpeed);
+        const value = colorValues[i];
+        // Segments without data keep the plain track colour
+        const color = Number.isNaN(value) ? '#FF0000' : getScaleColor(value, minValue, maxValue, colorScale);
         
         // Create a polyline segment with the appropriate color
         const segment = new window.google.maps.Polyline({
@@ -422,7 +417,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
         trackPathRef.current.push(segment);
       }
     } else {
-      // Fallback to single color if no speed data
+      // Fallback to single color if no colour channel data
       const trackPolyline = new window.google.maps.Polyline({
         path: pathCoordinates,
         geodesic: true,
@@ -466,24 +461,21 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
     return () => { isMounted = false; };
   }, [circuitLocation]); // circuitLocation is memoized in Dashboard
 
-  // Fetch track path data and speed data
+  // Fetch track path data
   useEffect(() => {
     let isMounted = true;
+    const controller = new AbortController(); // Cancels stale requests when the lap changes
     if (sessionId && selectedLap !== null) {
       setIsLoading(true);
       setHasError(false);
       hasFitBoundsForCurrentLapRef.current = false;
       // Do not set isMapReadyForDrawing here, it's tied to map API/instance lifecycle
 
-      Promise.all([
-        fetchLapTrackPath(sessionId, selectedLap),
-        fetchSpeedData(sessionId, selectedLap)
-      ])
-        .then(([pathData, speedPoints]) => {
+      fetchLapTrackPath(sessionId, selectedLap, { signal: controller.signal })
+        .then(pathData => {
           if (isMounted) {
-            console.log(`Fetched ${pathData.length} track path points and ${speedPoints.length} speed points`);
+            console.log(`Fetched ${pathData.length} track path points`);
             setTrackPath(pathData);
-            setSpeedData(speedPoints);
             setIsLoading(false);
             // Initial mapHoverTime setting remains, but drawing waits for map readiness
             if (pathData.length > 0) {
@@ -496,6 +488,7 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
           }
         })
         .catch(error => {
+          if (isAbortError(error)) return;
           console.error("Error fetching data:", error);
           if (isMounted) {
             setHasError(true);
@@ -517,24 +510,266 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
       }
       
       setTrackPath([]);
-      setSpeedData([]);
       hasFitBoundsForCurrentLapRef.current = false;
       // isMapReadyForDrawing should not be reset here, map might still be ready for a future lap
     }
-    return () => { isMounted = false; };
+    return () => {
+      isMounted = false;
+      controller.abort();
+    };
   }, [sessionId, selectedLap]);
 
-  // Effect to render track and fit bounds when trackPath/speedData changes AND map is ready
+  // Fetch the channel the racing line is coloured by
+  useEffect(() => {
+    if (!sessionId || selectedLap === null || !colorChannel) {
+      setColorData([]);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels the stale request when the lap or channel changes
+    fetchLapChannelData(sessionId, selectedLap, colorChannel, { signal: controller.signal })
+      .then(setColorData)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error(`Error fetching ${colorChannel} for the map:`, error);
+        setColorData([]); // The line falls back to a single colour
+      });
+
+    return () => controller.abort();
+  }, [sessionId, selectedLap, colorChannel]);
+
+  // A lap's line cannot be compared with itself
+  useEffect(() => {
+    if (lineCompareLap !== null && lineCompareLap === selectedLap) {
+      setLineCompareLap(null);
+    }
+  }, [lineCompareLap, selectedLap]);
+
+  // Fetch the racing line of the lap being compared against
+  useEffect(() => {
+    if (!sessionId || lineCompareLap === null || lineCompareLap === selectedLap) {
+      setComparePath([]);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels the stale request when the compared lap changes
+    fetchLapTrackPath(sessionId, lineCompareLap, { signal: controller.signal })
+      .then(setComparePath)
+      .catch(error => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching the comparison lap's track path:", error);
+        setComparePath([]);
+      });
+
+    return () => controller.abort();
+  }, [sessionId, lineCompareLap, selectedLap]);
+
+  // Effect to draw the compared lap's line, dashed so both lines stay readable where they overlap
+  useEffect(() => {
+    if (compareLineRef.current) {
+      compareLineRef.current.setMap(null);
+      compareLineRef.current = null;
+    }
+    if (comparePath.length === 0 || !isMapReadyForDrawing || !mapInstanceRef.current) return;
+
+    compareLineRef.current = new google.maps.Polyline({
+      path: comparePath.map(point => ({ lat: point.lat, lng: point.lng })),
+      geodesic: true,
+      strokeOpacity: 0,
+      icons: [{
+        icon: { path: 'M 0,-1 0,1', strokeColor: '#111827', strokeOpacity: 0.9, strokeWeight: 3, scale: 3 },
+        offset: '0',
+        repeat: '12px',
+      }],
+      zIndex: 1,
+      map: mapInstanceRef.current,
+    });
+  }, [comparePath, isMapReadyForDrawing]);
+
+  // Offset of the selected lap's line from the compared one at each track point
+  const lineDeviation = useMemo(
+    () => (comparePath.length > 0 ? computeLineDeviation(trackPath, comparePath) : []),
+    [trackPath, comparePath]
+  );
+
+  // Colour by speed by default, or the first channel when the session has no GPS speed
+  useEffect(() => {
+    if (channels.length > 0 && !channels.includes(colorChannel)) {
+      setColorChannel(channels.includes(SPEED_CHANNEL) ? SPEED_CHANNEL : channels[0]);
+    }
+  }, [channels, colorChannel]);
+
+  useEffect(() => {
+    onColorChannelChange?.(colorChannel);
+  }, [colorChannel, onColorChannelChange]);
+
+  // Colour channel sampled at each track point's time, and the range the scale spans
+  const colorValues = useMemo(
+    () => (colorData.length > 0 ? resampleSeries(colorData, trackPath.map(point => point.s)) : null),
+    [colorData, trackPath]
+  );
+  const colorRange = useMemo((): [number, number] | null => {
+    const validValues = (colorValues ?? []).filter(value => !Number.isNaN(value));
+    if (validValues.length === 0) return null;
+    return getScaleDomain(colorScale, Math.min(...validValues), Math.max(...validValues));
+  }, [colorValues, colorScale]);
+
+  // Effect to render track and fit bounds when trackPath/colour data changes AND map is ready
   useEffect(() => {
     if (trackPath.length > 0 && isMapReadyForDrawing && mapInstanceRef.current) {
-        console.log("Map: Track data available and map is ready. Calling renderTrackPath with fitBounds.");
-        renderTrackPath(true); // Fit bounds when new track/speed data is set AND map is ready
+        console.log("Map: Track data available and map is ready. Calling renderTrackPath.");
+        // Fit bounds once per lap, not when only the colouring changes
+        renderTrackPath(!hasFitBoundsForCurrentLapRef.current);
     } else if (trackPath.length === 0 && isMapReadyForDrawing && trackPathRef.current) {
         // Clear existing polylines if trackPath is empty but map was ready
         trackPathRef.current.forEach(polyline => polyline.setMap(null));
         trackPathRef.current = [];
     }
-  }, [trackPath, speedData, isMapReadyForDrawing]); // Depends on data & map readiness
+  }, [trackPath, colorValues, colorRange, isMapReadyForDrawing]); // Depends on data & map readiness
+
+  // Effect to label the corners at the selected lap's apexes
+  useEffect(() => {
+    cornerMarkersRef.current.forEach(marker => marker.setMap(null));
+    cornerMarkersRef.current = [];
+    if (!cornerMetrics || trackPath.length === 0 || !isMapReadyForDrawing || !mapInstanceRef.current) return;
+
+    const apexTimes = cornerMetrics.map(metrics => metrics.apexTime);
+    const lats = resampleSeries(trackPath.map(point => ({ s: point.s, d: point.lat })), apexTimes);
+    const lngs = resampleSeries(trackPath.map(point => ({ s: point.s, d: point.lng })), apexTimes);
+    cornerMetrics.forEach((metrics, i) => {
+      if (!Number.isFinite(lats[i]) || !Number.isFinite(lngs[i])) return;
+      cornerMarkersRef.current.push(new google.maps.Marker({
+        position: { lat: lats[i], lng: lngs[i] },
+        map: mapInstanceRef.current,
+        label: { text: `${metrics.corner}`, color: '#FFFFFF', fontSize: '11px', fontWeight: 'bold' },
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 9,
+          fillColor: '#B45309',
+          fillOpacity: 0.9,
+          strokeColor: '#FFFFFF',
+          strokeWeight: 1,
+        },
+        title: `Turn ${metrics.corner}`,
+        zIndex: 1,
+      }));
+    });
+  }, [cornerMetrics, trackPath, isMapReadyForDrawing]);
+
+  // Effect to mark where the selected lap braked and picked up the throttle
+  useEffect(() => {
+    eventMarkersRef.current.forEach(marker => marker.setMap(null));
+    eventMarkersRef.current = [];
+    if (!drivingEvents || trackPath.length === 0 || !isMapReadyForDrawing || !mapInstanceRef.current) return;
+
+    const eventTimes = drivingEvents.map(event => event.time);
+    const lats = resampleSeries(trackPath.map(point => ({ s: point.s, d: point.lat })), eventTimes);
+    const lngs = resampleSeries(trackPath.map(point => ({ s: point.s, d: point.lng })), eventTimes);
+    drivingEvents.forEach((event, i) => {
+      if (!Number.isFinite(lats[i]) || !Number.isFinite(lngs[i])) return;
+      eventMarkersRef.current.push(new google.maps.Marker({
+        position: { lat: lats[i], lng: lngs[i] },
+        map: mapInstanceRef.current,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 5,
+          fillColor: DRIVING_EVENT_COLORS[event.type],
+          fillOpacity: 1,
+          strokeColor: '#FFFFFF',
+          strokeWeight: 1,
+        },
+        title: describeDrivingEvent(event),
+        zIndex: 1,
+      }));
+    });
+  }, [drivingEvents, trackPath, isMapReadyForDrawing]);
+
+  // Effect to grey out and dash the stretches of the selected lap where the GPS is not trusted
+  useEffect(() => {
+    gpsFlagPolylinesRef.current.forEach(polyline => polyline.setMap(null));
+    gpsFlagPolylinesRef.current = [];
+    if (!gpsFlaggedRanges || trackPath.length === 0 || !isMapReadyForDrawing || !mapInstanceRef.current) return;
+
+    const pathStart = trackPath[0].s;
+    const pathEnd = trackPath[trackPath.length - 1].s;
+    gpsFlaggedRanges.forEach(range => {
+      // DOP channels can log beyond the track path: only the part the path covers is drawn
+      const start = Math.max(range.start, pathStart);
+      const end = Math.min(range.end, pathEnd);
+      if (start > end) return;
+      const startIndex = trackPath.findIndex(point => point.s >= start);
+      if (startIndex === -1) return;
+      // Include the fixes either side so short ranges still draw a segment
+      const first = Math.max(0, startIndex - 1);
+      const after = trackPath.findIndex(point => point.s > end);
+      const coordinates = trackPath
+        .slice(first, after === -1 ? trackPath.length : after + 1)
+        .map(point => ({ lat: point.lat, lng: point.lng }));
+      if (coordinates.length < 2) return;
+      gpsFlagPolylinesRef.current.push(new google.maps.Polyline({
+        path: coordinates,
+        geodesic: true,
+        strokeColor: '#9CA3AF',
+        strokeOpacity: 1,
+        strokeWeight: 6,
+        icons: [{
+          icon: { path: 'M 0,-1 0,1', strokeColor: '#FFFFFF', strokeOpacity: 1, scale: 2 },
+          offset: '0',
+          repeat: '10px',
+        }],
+        zIndex: 1,
+        map: mapInstanceRef.current,
+      }));
+    });
+  }, [gpsFlaggedRanges, trackPath, isMapReadyForDrawing]);
+
+  // Effect to highlight selected stretches of track, loading the path of each lap they belong to
+  useEffect(() => {
+    const clearHighlights = () => {
+      highlightPolylinesRef.current.forEach(polyline => polyline.setMap(null));
+      highlightPolylinesRef.current = [];
+    };
+    clearHighlights();
+    if (!highlightRanges || highlightRanges.length === 0 || !isMapReadyForDrawing) return;
+
+    const controller = new AbortController(); // Cancels path requests when the selection changes
+    const laps = [...new Set(highlightRanges.map(range => range.lap))];
+
+    Promise.all(laps.map(lap => fetchLapTrackPath(sessionId, lap, { signal: controller.signal })))
+      .then(paths => {
+        if (controller.signal.aborted || !mapInstanceRef.current) return;
+        highlightRanges.forEach(range => {
+          const path = paths[laps.indexOf(range.lap)];
+          const lats = resampleSeries(path.map(point => ({ s: point.s, d: point.lat })), [range.start, range.end]);
+          const lngs = resampleSeries(path.map(point => ({ s: point.s, d: point.lng })), [range.start, range.end]);
+          // The range's interpolated ends plus every track point between them
+          const coordinates = [
+            { lat: lats[0], lng: lngs[0] },
+            ...path.filter(point => point.s > range.start && point.s < range.end).map(point => ({ lat: point.lat, lng: point.lng })),
+            { lat: lats[1], lng: lngs[1] },
+          ].filter(coordinate => Number.isFinite(coordinate.lat) && Number.isFinite(coordinate.lng));
+          if (coordinates.length < 2) return;
+          highlightPolylinesRef.current.push(new google.maps.Polyline({
+            path: coordinates,
+            geodesic: true,
+            strokeColor: '#F59E0B',
+            strokeOpacity: 0.9,
+            strokeWeight: 9,
+            zIndex: 2,
+            map: mapInstanceRef.current,
+          }));
+        });
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error("Map: Failed to load track paths for the highlighted selection:", err);
+      });
+
+    return () => {
+      controller.abort();
+      clearHighlights();
+    };
+  }, [highlightRanges, sessionId, isMapReadyForDrawing]);
 
   // Effect to initialize or update marker based on hover time changes AND map readiness
   useEffect(() => {
@@ -609,15 +844,15 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
       if (sessionId && selectedLap !== null) {
         return Promise.all([
           fetchLapTrackPath(sessionId, selectedLap),
-          fetchSpeedData(sessionId, selectedLap)
+          fetchLapChannelData(sessionId, selectedLap, colorChannel)
         ]);
       }
-      return Promise.resolve([[] as TrackPathPoint[], [] as SpeedDataPoint[]]);
+      return Promise.resolve([[] as TrackPathPoint[], [] as ChannelDataPoint[]]);
     })
     .then((result) => {
-      const [pathData, speedPoints] = result;
+      const [pathData, colorPoints] = result;
       if (Array.isArray(pathData)) setTrackPath(pathData as TrackPathPoint[]);
-      if (Array.isArray(speedPoints)) setSpeedData(speedPoints as SpeedDataPoint[]);
+      if (Array.isArray(colorPoints)) setColorData(colorPoints as ChannelDataPoint[]);
       setIsLoading(false);
       
       // Render track path after everything is ready
@@ -631,6 +866,31 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
     });
   };
 
+  // Download the current lap's racing line as GPX or KML
+  const handleTrackExport = async (format: 'gpx' | 'kml') => {
+    if (trackPath.length === 0 || selectedLap === null) return;
+    const sessionStartMs = sessionStart ? Date.parse(sessionStart) : NaN;
+    const lapStartTime = Number.isNaN(sessionStartMs)
+      ? null
+      : new Date(sessionStartMs + (lapStartSecond ?? 0) * 1000);
+    const options = { name: `${sessionId} lap ${selectedLap}`, lapStartTime };
+    const fileName = `${sessionId}_lap${selectedLap}.${format}`;
+
+    if (format === 'gpx') {
+      downloadFile(buildGpx(trackPath, options), fileName, 'application/gpx+xml');
+    } else {
+      // KML keeps its speed colouring whatever the map is coloured by
+      let speeds: number[] = [];
+      try {
+        const speedData = await fetchLapChannelData(sessionId, selectedLap, SPEED_CHANNEL);
+        speeds = resampleSeries(speedData, trackPath.map(point => point.s));
+      } catch (error) {
+        console.warn("Exporting KML without speed colours:", error);
+      }
+      downloadFile(buildKml(trackPath, speeds, options), fileName, 'application/vnd.google-earth.kml+xml');
+    }
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       {/* <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
@@ -671,6 +931,78 @@ const MapComponent: React.FC<MapComponentProps> = ({ sessionId, selectedLap, cir
           className={`absolute inset-0 w-full h-full rounded ${isLoading || hasError || !isMapReadyForDrawing ? 'invisible' : ''}`}
         />
       </div>     
+
+      <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          Colour by
+          <select
+            value={colorChannel}
+            onChange={(e) => setColorChannel(e.target.value)}
+            disabled={channels.length === 0}
+            className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {(channels.length > 0 ? channels : [colorChannel]).map(channel => (
+              <option key={channel} value={channel}>{channel}</option>
+            ))}
+          </select>
+        </label>
+        <select
+          value={colorScale}
+          onChange={(e) => setColorScale(e.target.value as ColorScaleName)}
+          aria-label="Colour scale"
+          className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        >
+          {(['sequential', 'diverging'] as const).map(kind => (
+            <optgroup key={kind} label={kind === 'sequential' ? 'Sequential' : 'Diverging'}>
+              {(Object.keys(COLOR_SCALES) as ColorScaleName[])
+                .filter(name => COLOR_SCALES[name].kind === kind)
+                .map(name => <option key={name} value={name}>{COLOR_SCALES[name].label}</option>)}
+            </optgroup>
+          ))}
+        </select>
+        {colorRange && (
+          <div className="flex items-center gap-2 text-xs text-gray-600">
+            <span className="font-mono">{colorRange[0].toFixed(1)}</span>
+            <span className="w-24 h-2 rounded" style={{ background: getScaleGradient(colorScale) }} />
+            <span className="font-mono">{colorRange[1].toFixed(1)}</span>
+            {getChannelUnit(colorChannel) && <span>{getChannelUnit(colorChannel)}</span>}
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-gray-700">
+          Compare line with
+          <select
+            value={lineCompareLap ?? ''}
+            onChange={(e) => setLineCompareLap(e.target.value ? parseInt(e.target.value, 10) : null)}
+            className="bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            <option value="">None</option>
+            {lapOptions.filter(lap => lap !== selectedLap).map(lap => (
+              <option key={lap} value={lap}>{`Lap ${lap}${lap === fastestLap ? ' (fastest)' : ''}`}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex-1" />
+        {(['gpx', 'kml'] as const).map(format => (
+          <button
+            key={format}
+            type="button"
+            onClick={() => handleTrackExport(format)}
+            disabled={trackPath.length === 0}
+            className="inline-flex items-center gap-2 bg-gray-200 text-gray-800 px-3 py-1 text-sm rounded-md hover:bg-gray-300 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      {lineCompareLap !== null && lineDeviation.length > 0 && (
+        <LineDeviationProfile
+          points={lineDeviation}
+          referenceLap={lineCompareLap}
+          cursorTime={isSyncActive && syncedGraphTime !== null ? syncedGraphTime : mapHoverTime}
+        />
+      )}
     </div>
   );
 };
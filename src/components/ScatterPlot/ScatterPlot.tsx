@@ -0,0 +1,299 @@
+import React, { useState, useRef, useMemo, useEffect } from 'react';
+import { Lasso, X } from 'lucide-react';
+import LoadingSpinner from '../common/LoadingSpinner';
+import LapToggleGroup from '../common/LapToggleGroup';
+import { useMultiLapChannels } from '../../hooks/useMultiLapChannels';
+import { alignChannels } from '../../utils/resample';
+import { getColorForSpeed, SERIES_COLORS } from '../../utils/colors';
+import { getChannelUnit } from '../../utils/channelUnits';
+import { isPointInPolygon, LapTimeRange, toLapTimeRanges } from '../../utils/scatter';
+
+const width = 640;
+const height = 400;
+const margin = { top: 16, right: 20, bottom: 44, left: 60 };
+
+interface ScatterPlotProps {
+  sessionId: string;
+  channels: string[];
+  lapOptions: number[];
+  selectedLap: number | null;
+  onSelectionChange: (ranges: LapTimeRange[]) => void;
+}
+
+// One sample with the X, Y and optional colour channel at the same time
+interface ScatterPoint {
+  lap: number;
+  time: number;
+  x: number;
+  y: number;
+  color?: number;
+}
+
+// Evenly spaced axis ticks on round values
+const getTicks = (min: number, max: number, count: number): number[] => {
+  const range = max - min || 1;
+  const rawStep = range / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rawStep) ?? rawStep;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(parseFloat(tick.toPrecision(10)));
+  }
+  return ticks;
+};
+
+const axisLabel = (channel: string) => {
+  const unit = getChannelUnit(channel);
+  return unit ? `${channel} (${unit})` : channel;
+};
+
+const ScatterPlot: React.FC<ScatterPlotProps> = ({
+  sessionId,
+  channels,
+  lapOptions,
+  selectedLap,
+  onSelectionChange
+}) => {
+  const [xChannel, setXChannel] = useState<string>('');
+  const [yChannel, setYChannel] = useState<string>('');
+  const [colorChannel, setColorChannel] = useState<string>('');
+  const [laps, setLaps] = useState<number[]>([]);
+  const [lasso, setLasso] = useState<Array<{ x: number; y: number }> | null>(null); // Polygon being drawn
+  const [selected, setSelected] = useState<Set<string> | null>(null); // Keys of the selected points
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  // Start with RPM against speed, the usual gearing check, when the session has them
+  useEffect(() => {
+    if (channels.length === 0) return;
+    setXChannel(prev => (prev && channels.includes(prev)) ? prev : (channels.find(c => c === 'GPS Speed' || c === 'Speed') ?? channels[0]));
+    setYChannel(prev => (prev && channels.includes(prev)) ? prev : (channels.includes('RPM') ? 'RPM' : channels[Math.min(1, channels.length - 1)]));
+  }, [channels]);
+
+  // Default to the selected lap when none of the picked laps remain
+  useEffect(() => {
+    setLaps(prev => {
+      const kept = prev.filter(lap => lapOptions.includes(lap));
+      if (kept.length > 0) return kept;
+      return selectedLap !== null ? [selectedLap] : [];
+    });
+  }, [lapOptions, selectedLap]);
+
+  const requested = [xChannel, yChannel, ...(colorChannel ? [colorChannel] : [])].filter(Boolean);
+  const { data, isLoading, error } = useMultiLapChannels(sessionId, laps, xChannel && yChannel ? requested : []);
+
+  // Resample each lap's channels onto common timestamps
+  const points = useMemo((): ScatterPoint[] => laps.flatMap(lap => {
+    const lapData = data[lap];
+    if (!lapData || !lapData[xChannel] || !lapData[yChannel]) return [];
+    const rows = alignChannels([lapData[xChannel], lapData[yChannel]]);
+    const colors = colorChannel && lapData[colorChannel]
+      ? alignChannels([lapData[colorChannel]], { timestamps: rows.map(row => row.s), keepIncomplete: true })
+      : [];
+    return rows.map((row, i) => ({
+      lap,
+      time: row.s,
+      x: row.values[0],
+      y: row.values[1],
+      color: colors[i]?.values[0],
+    }));
+  }), [data, laps, xChannel, yChannel, colorChannel]);
+
+  // A new set of points invalidates the selection
+  useEffect(() => {
+    setSelected(null);
+    onSelectionChange([]);
+  }, [points, onSelectionChange]);
+
+  const pointKey = (point: ScatterPoint) => `${point.lap}:${point.time}`;
+
+  const plotWidth = width - margin.left - margin.right;
+  const plotHeight = height - margin.top - margin.bottom;
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const minX = xs.length > 0 ? Math.min(...xs) : 0;
+  const maxX = xs.length > 0 ? Math.max(...xs) : 1;
+  const minY = ys.length > 0 ? Math.min(...ys) : 0;
+  const maxY = ys.length > 0 ? Math.max(...ys) : 1;
+  const toX = (x: number) => margin.left + ((x - minX) / ((maxX - minX) || 1)) * plotWidth;
+  const toY = (y: number) => margin.top + plotHeight - ((y - minY) / ((maxY - minY) || 1)) * plotHeight;
+
+  const colorValues = points.map(point => point.color).filter((value): value is number => Number.isFinite(value));
+  const minColor = colorValues.length > 0 ? Math.min(...colorValues) : 0;
+  const maxColor = colorValues.length > 0 ? Math.max(...colorValues) : 1;
+  const getPointColor = (point: ScatterPoint) => {
+    if (colorChannel && point.color !== undefined && Number.isFinite(point.color)) {
+      return getColorForSpeed(point.color, minColor, maxColor);
+    }
+    return SERIES_COLORS[laps.indexOf(point.lap) % SERIES_COLORS.length];
+  };
+
+  // Mouse position in viewBox coordinates
+  const toSvgPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = (svgRef.current as SVGSVGElement).getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * width,
+      y: ((event.clientY - rect.top) / rect.height) * height,
+    };
+  };
+
+  const finishLasso = () => {
+    if (!lasso) return;
+    setLasso(null);
+    if (lasso.length < 3) {
+      // A click without dragging clears the selection
+      setSelected(null);
+      onSelectionChange([]);
+      return;
+    }
+    const inside = new Set<string>();
+    points.forEach(point => {
+      if (isPointInPolygon({ x: toX(point.x), y: toY(point.y) }, lasso)) inside.add(pointKey(point));
+    });
+    setSelected(inside);
+    onSelectionChange(laps.flatMap(lap => {
+      const lapPoints = points.filter(point => point.lap === lap);
+      return toLapTimeRanges(lap, lapPoints.map(point => point.time), lapPoints.map(point => inside.has(pointKey(point))));
+    }));
+  };
+
+  const clearSelection = () => {
+    setSelected(null);
+    onSelectionChange([]);
+  };
+
+  const selectClass = 'bg-white border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <div className="h-full flex items-center justify-center"><LoadingSpinner /></div>;
+    }
+    if (error) {
+      return <div className="h-full flex items-center justify-center text-red-500">Failed to load channel data. Please try again.</div>;
+    }
+    if (points.length === 0) {
+      return <div className="h-full flex items-center justify-center text-gray-500">Pick two channels and at least one lap</div>;
+    }
+    return (
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-full cursor-crosshair select-none"
+        onMouseDown={(e) => setLasso([toSvgPoint(e)])}
+        onMouseMove={(e) => {
+          if (!lasso) return;
+          const next = toSvgPoint(e);
+          const last = lasso[lasso.length - 1];
+          if (Math.hypot(next.x - last.x, next.y - last.y) > 3) setLasso([...lasso, next]);
+        }}
+        onMouseUp={finishLasso}
+        onMouseLeave={finishLasso}
+      >
+        <line x1={margin.left} y1={margin.top + plotHeight} x2={margin.left + plotWidth} y2={margin.top + plotHeight} stroke="#E5E7EB" />
+        <line x1={margin.left} y1={margin.top} x2={margin.left} y2={margin.top + plotHeight} stroke="#E5E7EB" />
+        {getTicks(minX, maxX, 6).map(tick => (
+          <text key={`x-${tick}`} x={toX(tick)} y={margin.top + plotHeight + 16} textAnchor="middle" fontSize="11" fill="#6B7280">{tick}</text>
+        ))}
+        {getTicks(minY, maxY, 5).map(tick => (
+          <text key={`y-${tick}`} x={margin.left - 8} y={toY(tick)} textAnchor="end" dominantBaseline="middle" fontSize="11" fill="#6B7280">{tick}</text>
+        ))}
+        <text x={margin.left + plotWidth / 2} y={height - 6} textAnchor="middle" fontSize="12" fill="#374151">{axisLabel(xChannel)}</text>
+        <text
+          x={14}
+          y={margin.top + plotHeight / 2}
+          textAnchor="middle"
+          fontSize="12"
+          fill="#374151"
+          transform={`rotate(-90 14 ${margin.top + plotHeight / 2})`}
+        >
+          {axisLabel(yChannel)}
+        </text>
+
+        {points.map(point => {
+          const isSelected = selected?.has(pointKey(point)) ?? false;
+          return (
+            <circle
+              key={pointKey(point)}
+              cx={toX(point.x)}
+              cy={toY(point.y)}
+              r={isSelected ? 3 : 2}
+              fill={getPointColor(point)}
+              stroke={isSelected ? '#111827' : 'none'}
+              strokeWidth="0.75"
+              opacity={selected && !isSelected ? 0.15 : 0.7}
+            />
+          );
+        })}
+
+        {lasso && lasso.length > 1 && (
+          <polygon
+            points={lasso.map(vertex => `${vertex.x},${vertex.y}`).join(' ')}
+            fill="#F59E0B"
+            fillOpacity="0.1"
+            stroke="#F59E0B"
+            strokeDasharray="4 2"
+          />
+        )}
+      </svg>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h2 className="text-lg font-semibold text-gray-800">Scatter Plot</h2>
+        {selected && (
+          <button type="button" onClick={clearSelection} className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900">
+            <X className="w-4 h-4" />
+            Clear selection ({selected.size} points)
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4 text-sm">
+        <label className="flex flex-col gap-1 text-gray-700">
+          X channel
+          <select value={xChannel} onChange={(e) => setXChannel(e.target.value)} className={selectClass}>
+            {channels.map(channel => <option key={channel} value={channel}>{channel}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          Y channel
+          <select value={yChannel} onChange={(e) => setYChannel(e.target.value)} className={selectClass}>
+            {channels.map(channel => <option key={channel} value={channel}>{channel}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700">
+          Colour by
+          <select value={colorChannel} onChange={(e) => setColorChannel(e.target.value)} className={selectClass}>
+            <option value="">Lap</option>
+            {channels.map(channel => <option key={channel} value={channel}>{channel}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="mb-4">
+        <LapToggleGroup lapOptions={lapOptions} laps={laps} onChange={setLaps} colored={!colorChannel} />
+      </div>
+
+      <div className="h-96">
+        {renderBody()}
+      </div>
+
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-gray-500">
+        <p className="flex items-center gap-1">
+          <Lasso className="w-3 h-3" />
+          Drag around points to select them and highlight where they were recorded on the map. Click to clear.
+        </p>
+        {colorChannel && colorValues.length > 0 && (
+          <div className="flex items-center gap-2">
+            <span>{minColor.toFixed(1)}</span>
+            <span className="w-24 h-2 rounded" style={{ background: 'linear-gradient(to right, #ff0000, #00ff00)' }} />
+            <span>{maxColor.toFixed(1)} {getChannelUnit(colorChannel) ?? ''}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScatterPlot;
\ No newline at end of file
@@ -0,0 +1,113 @@
+import React from 'react';
+import { Calendar, Cloud, Flag, MapPin, Timer, User } from 'lucide-react';
+import { SessionData } from '../../api/sessionApi';
+import { formatLapTime, parseTimeSpan } from '../../utils/time';
+
+interface SessionHeaderProps {
+  sessionData: SessionData;
+  lapCount: number;
+}
+
+// Flag emoji from an ISO country code ("be" -> 🇧🇪); codes that are not two letters give none
+const countryFlag = (countryCode: string | null | undefined): string => {
+  if (!countryCode || !/^[a-z]{2}$/i.test(countryCode)) return '';
+  return String.fromCodePoint(...countryCode.toUpperCase().split('').map(char => 0x1F1E6 + char.charCodeAt(0) - 65));
+};
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short', year: 'numeric' });
+
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const formatTimeSpanValue = (value: string | null) => {
+  const seconds = parseTimeSpan(value);
+  return seconds !== null && seconds > 0 ? formatLapTime(seconds) : '-';
+};
+
+const SessionHeader: React.FC<SessionHeaderProps> = ({ sessionData, lapCount }) => {
+  const { driver, circuit, weather, start, end, duration } = sessionData;
+  const flag = countryFlag(circuit?.countryCode);
+
+  // Weather readings the session has, in display order
+  const weatherDetails = [
+    weather?.temperature != null ? `${weather.temperature.toFixed(1)}°C` : null,
+    weather?.humidity != null ? `${Math.round(weather.humidity)}% humidity` : null,
+    weather?.windSpeed != null ? `wind ${Math.round(weather.windSpeed)} km/h` : null,
+    weather?.cloudCover != null ? `${Math.round(weather.cloudCover)}% cloud` : null,
+    weather?.precipitation ? `${weather.precipitation} mm rain` : null,
+    weather?.pressure != null ? `${Math.round(weather.pressure)} hPa` : null,
+  ].filter(Boolean);
+
+  const times = [
+    { label: 'Best', value: sessionData.best },
+    { label: 'Rolling', value: sessionData.rolling },
+    { label: 'Theoretical', value: sessionData.theorical },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex flex-wrap items-start justify-between gap-6">
+        <div className="flex items-center gap-4">
+          {driver?.avatarUrl ? (
+            <img src={driver.avatarUrl} alt="" className="w-14 h-14 rounded-full bg-gray-100" />
+          ) : (
+            <div className="w-14 h-14 rounded-full bg-gray-100 flex items-center justify-center">
+              <User className="w-7 h-7 text-gray-400" />
+            </div>
+          )}
+          <div>
+            <h1 className="text-xl font-semibold text-gray-800">
+              {driver?.displayName ?? 'Unknown driver'}
+              {driver?.number && <span className="ml-2 text-gray-400">#{driver.number}</span>}
+            </h1>
+            {driver?.teamName && <p className="text-sm text-gray-500">{driver.teamName}</p>}
+            <p className="flex items-center gap-1 text-sm text-gray-600 mt-1">
+              <MapPin className="w-4 h-4 text-gray-400" />
+              {[circuit?.venue, circuit?.track, circuit?.location].filter(Boolean).join(', ') || 'Unknown circuit'}
+              {flag && <span className="ml-1" title={circuit?.countryCode?.toUpperCase()}>{flag}</span>}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex gap-6">
+          {times.map(({ label, value }) => (
+            <div key={label} className="text-right">
+              <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+              <div className={`font-mono text-lg ${label === 'Best' ? 'text-purple-700 font-semibold' : 'text-gray-800'}`}>
+                {formatTimeSpanValue(value)}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 mt-4 pt-4 border-t border-gray-100 text-sm text-gray-600">
+        {start && (
+          <span className="flex items-center gap-1">
+            <Calendar className="w-4 h-4 text-gray-400" />
+            {formatDate(start)}, {formatClock(start)}{end && ` - ${formatClock(end)}`}
+          </span>
+        )}
+        <span className="flex items-center gap-1">
+          <Flag className="w-4 h-4 text-gray-400" />
+          {lapCount} {lapCount === 1 ? 'lap' : 'laps'}
+        </span>
+        {duration !== null && duration > 0 && (
+          <span className="flex items-center gap-1">
+            <Timer className="w-4 h-4 text-gray-400" />
+            {duration.toFixed(1)} min driven
+          </span>
+        )}
+        {(weather?.conditions || weatherDetails.length > 0) && (
+          <span className="flex items-center gap-1">
+            <Cloud className="w-4 h-4 text-gray-400" />
+            {[weather?.conditions, ...weatherDetails].filter(Boolean).join(', ')}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHeader;
\ No newline at end of file
@@ -0,0 +1,41 @@
+import React from 'react';
+import { SERIES_COLORS } from '../../utils/colors';
+
+interface LapToggleGroupProps {
+  lapOptions: number[];
+  laps: number[];                 // Laps currently picked, in series colour order
+  onChange: (laps: number[]) => void;
+  colored?: boolean;              // Show each picked lap in its series colour
+}
+
+const LapToggleGroup: React.FC<LapToggleGroupProps> = ({
+  lapOptions,
+  laps,
+  onChange,
+  colored = true
+}) => {
+  const toggleLap = (lap: number) =>
+    onChange(laps.includes(lap) ? laps.filter(l => l !== lap) : [...laps, lap].sort((a, b) => a - b));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-700">Laps</span>
+      {lapOptions.map(lap => {
+        const index = laps.indexOf(lap);
+        return (
+          <button
+            key={lap}
+            type="button"
+            onClick={() => toggleLap(lap)}
+            className={`px-2 py-0.5 rounded-full border text-xs ${index !== -1 ? 'text-white border-transparent' : 'text-gray-600 border-gray-300 hover:bg-gray-50'}`}
+            style={index !== -1 ? { backgroundColor: colored ? SERIES_COLORS[index % SERIES_COLORS.length] : '#4B5563' } : undefined}
+          >
+            {lap}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LapToggleGroup;
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { loadChannelFilters, saveChannelFilters } from '../api/channelFilters';
+import { DEFAULT_SIGNAL_FILTER, SignalFilter } from '../utils/signalFilters';
+
+interface UseChannelFiltersReturn {
+  getFilter: (channel: string) => SignalFilter;
+  setFilter: (channel: string, filter: SignalFilter) => void;
+}
+
+/**
+ * Smoothing filters chosen for each channel, saved as they change.
+ * Channels without a saved filter are plotted unfiltered.
+ */
+export const useChannelFilters = (): UseChannelFiltersReturn => {
+  const [filters, setFilters] = useState<Record<string, SignalFilter>>(loadChannelFilters);
+  const loadedRef = useRef(filters); // The filters as read, which need no saving
+
+  useEffect(() => {
+    if (filters !== loadedRef.current) saveChannelFilters(filters);
+  }, [filters]);
+
+  const getFilter = useCallback(
+    (channel: string) => filters[channel] ?? DEFAULT_SIGNAL_FILTER,
+    [filters]
+  );
+
+  const setFilter = useCallback((channel: string, filter: SignalFilter) => {
+    setFilters(prev => {
+      const next = { ...prev };
+      if (filter.type === 'none' && !filter.showRaw) {
+        delete next[channel];
+      } else {
+        next[channel] = filter;
+      }
+      return next;
+    });
+  }, []);
+
+  return { getFilter, setFilter };
+};
\ No newline at end of file
@@ -0,0 +1,129 @@
+import { useState, useEffect } from 'react';
+import { fetchLapChannelData, fetchLapTrackPath } from '../api/sessionApi';
+import { isAbortError } from '../api/http';
+import { runTaskQueue } from '../utils/taskQueue';
+import { DISTANCE_CHANNEL, loadLapDistance } from './useLapDistance';
+import {
+  Corner,
+  CornerMetrics,
+  computeCornerMetrics,
+  curvatureByDistance,
+  detectCorners,
+  trackCurvature
+} from '../utils/corners';
+import { DrivingEvent, detectDrivingEvents } from '../utils/drivingEvents';
+
+// Logged curvature, preferred over the GPS estimate when the session has it
+const CURVATURE_CHANNEL = 'Inverse Corner Radius';
+// Speed channels in order of preference
+const SPEED_CHANNELS = ['GPS Speed', 'Speed'];
+// Longitudinal accelerometer, preferred over differentiating speed for braking points
+const LONGITUDINAL_CHANNEL = 'Accelerometer X Axis';
+// Laps measured at once
+const ANALYSIS_CONCURRENCY = 2;
+
+interface UseCornerAnalysisReturn {
+  corners: Corner[];
+  metricsByLap: Record<number, CornerMetrics[]>;
+  eventsByLap: Record<number, DrivingEvent[]>; // Braking and throttle points of each lap
+  speedChannel: string | null;  // Channel the corner speeds are read from
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Detects the corners on a reference lap and measures every lap through them,
+ * including where each lap braked and picked up the throttle.
+ * @param referenceLap The lap corners are detected on, usually the fastest.
+ * @param laps The laps to measure.
+ * @param channels The session's channels.
+ */
+export const useCornerAnalysis = (
+  sessionId: string,
+  referenceLap: number | null,
+  laps: number[],
+  channels: string[]
+): UseCornerAnalysisReturn => {
+  const [corners, setCorners] = useState<Corner[]>([]);
+  const [metricsByLap, setMetricsByLap] = useState<Record<number, CornerMetrics[]>>({});
+  const [eventsByLap, setEventsByLap] = useState<Record<number, DrivingEvent[]>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasDistanceChannel = channels.includes(DISTANCE_CHANNEL);
+  const hasCurvatureChannel = channels.includes(CURVATURE_CHANNEL);
+  const hasLongitudinalChannel = channels.includes(LONGITUDINAL_CHANNEL);
+  const speedChannel = SPEED_CHANNELS.find(channel => channels.includes(channel)) ?? null;
+
+  useEffect(() => {
+    if (!sessionId || referenceLap === null) {
+      setCorners([]);
+      setMetricsByLap({});
+      setEventsByLap({});
+      // An analysis cancelled by this change never reaches its own reset
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels the analysis when its inputs change
+    const { signal } = controller;
+
+    const analyse = async () => {
+      setIsLoading(true);
+      setError(null);
+      setMetricsByLap({});
+      setEventsByLap({});
+
+      // Braking and throttle points do not depend on the corners, so a lap still gets them
+      // when no corners are found or detection fails
+      let detected: Corner[] = [];
+      try {
+        detected = hasCurvatureChannel
+          ? detectCorners(curvatureByDistance(
+              await fetchLapChannelData(sessionId, referenceLap, CURVATURE_CHANNEL, { signal }),
+              await loadLapDistance(sessionId, referenceLap, hasDistanceChannel, { signal })
+            ), false)
+          : detectCorners(trackCurvature(await fetchLapTrackPath(sessionId, referenceLap, { signal })));
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error("Failed to detect corners:", e);
+        setError(e instanceof Error ? e.message : 'An unknown error occurred');
+      }
+      if (signal.aborted) return;
+      setCorners(detected);
+
+      try {
+        if (!speedChannel) return;
+
+        const tasks = laps.map(lap => async () => {
+          const [distance, speed, longitudinal] = await Promise.all([
+            loadLapDistance(sessionId, lap, hasDistanceChannel, { signal }),
+            fetchLapChannelData(sessionId, lap, speedChannel, { signal }),
+            hasLongitudinalChannel ? fetchLapChannelData(sessionId, lap, LONGITUDINAL_CHANNEL, { signal }) : undefined,
+          ]);
+          const events = detectDrivingEvents(speed, distance, longitudinal);
+          const metrics = detected.length > 0 ? computeCornerMetrics(detected, distance, speed, events) : [];
+          if (!signal.aborted) {
+            setMetricsByLap(prev => ({ ...prev, [lap]: metrics }));
+            setEventsByLap(prev => ({ ...prev, [lap]: events }));
+          }
+        });
+        const results = await runTaskQueue(tasks, { concurrency: ANALYSIS_CONCURRENCY, signal });
+        const failures = results.filter(result => result.status === 'rejected' && !isAbortError(result.reason));
+        if (failures.length > 0) {
+          console.warn(`Corner analysis failed for ${failures.length} of ${laps.length} laps.`);
+        }
+      } finally {
+        if (!signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    analyse();
+
+    return () => controller.abort();
+  }, [sessionId, referenceLap, laps, hasDistanceChannel, hasCurvatureChannel, hasLongitudinalChannel, speedChannel]);
+
+  return { corners, metricsByLap, eventsByLap, speedChannel, isLoading, error };
+};
\ No newline at end of file
@@ -0,0 +1,88 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ChannelDataPoint, TrackPathPoint, fetchLapChannelData, fetchLapTrackPath } from '../api/sessionApi';
+import { isAbortError } from '../api/http';
+import { runTaskQueue } from '../utils/taskQueue';
+import {
+  DOP_CHANNELS,
+  DopChannel,
+  GpsQuality,
+  GpsQualityThresholds,
+  assessGpsQuality
+} from '../utils/gpsQuality';
+
+// Laps loaded at once
+const LOAD_CONCURRENCY = 2;
+
+// What a lap's quality is assessed from
+interface LapGpsData {
+  path: TrackPathPoint[];
+  dop: Partial<Record<DopChannel, ChannelDataPoint[]>>;
+}
+
+interface UseGpsQualityReturn {
+  qualityByLap: Record<number, GpsQuality>;
+  dopChannels: DopChannel[]; // DOP channels the session logs
+  isLoading: boolean;
+}
+
+/**
+ * Assesses the GPS quality of every lap. Lap data is loaded once; changing the
+ * thresholds only re-scores it.
+ * @param laps The laps to assess.
+ * @param channels The session's channels.
+ * @param thresholds The limits a lap is scored against.
+ */
+export const useGpsQuality = (
+  sessionId: string,
+  laps: number[],
+  channels: string[],
+  thresholds: GpsQualityThresholds
+): UseGpsQualityReturn => {
+  const [dataByLap, setDataByLap] = useState<Record<number, LapGpsData>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const dopChannelKey = DOP_CHANNELS.filter(channel => channels.includes(channel)).join('|');
+  const dopChannels = useMemo(
+    () => (dopChannelKey ? dopChannelKey.split('|') as DopChannel[] : []),
+    [dopChannelKey]
+  );
+
+  useEffect(() => {
+    setDataByLap({});
+    if (!sessionId || laps.length === 0) return;
+
+    const controller = new AbortController(); // Cancels loading when the session or laps change
+    const { signal } = controller;
+
+    const tasks = laps.map(lap => async () => {
+      const [path, dopSeries] = await Promise.all([
+        fetchLapTrackPath(sessionId, lap, { signal }),
+        Promise.all(dopChannels.map(channel => fetchLapChannelData(sessionId, lap, channel, { signal }))),
+      ]);
+      const dop = Object.fromEntries(dopChannels.map((channel, i) => [channel, dopSeries[i]]));
+      if (!signal.aborted) {
+        setDataByLap(prev => ({ ...prev, [lap]: { path, dop } }));
+      }
+    });
+
+    setIsLoading(true);
+    runTaskQueue(tasks, { concurrency: LOAD_CONCURRENCY, signal })
+      .then(results => {
+        const failures = results.filter(result => result.status === 'rejected' && !isAbortError(result.reason));
+        if (failures.length > 0) {
+          console.warn(`GPS quality could not be assessed for ${failures.length} of ${laps.length} laps.`);
+        }
+      })
+      .finally(() => {
+        if (!signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [sessionId, laps, dopChannels]);
+
+  const qualityByLap = useMemo(
+    () => Object.fromEntries(Object.entries(dataByLap).map(([lap, data]) => [lap, assessGpsQuality(data.path, data.dop, thresholds)])),
+    [dataByLap, thresholds]
+  );
+
+  return { qualityByLap, dopChannels, isLoading };
+};
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { ChannelDataPoint } from '../api/sessionApi';
+import { useMultiLapChannels } from './useMultiLapChannels';
+
+interface UseLapChannelsReturn {
+  data: Record<string, ChannelDataPoint[]>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+// Stable result while no lap is loaded, so memoised consumers do not recompute
+const NO_CHANNELS: Record<string, ChannelDataPoint[]> = {};
+
+/**
+ * Loads several channels of one lap in parallel.
+ * Stale requests are cancelled when the lap or channel list changes.
+ */
+export const useLapChannels = (
+  sessionId: string,
+  lap: number | null,
+  channels: string[]
+): UseLapChannelsReturn => {
+  const laps = useMemo(() => (lap === null ? [] : [lap]), [lap]);
+  const { data, isLoading, error } = useMultiLapChannels(sessionId, laps, channels);
+  return { data: (lap !== null && data[lap]) || NO_CHANNELS, isLoading, error };
+};
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { useState, useEffect } from 'react';
+import { fetchLapChannelData, fetchLapTrackPath, ChannelDataPoint } from '../api/sessionApi';
+import { isAbortError, RequestOptions } from '../api/http';
+import { distanceFromTrackPath, toLapDistance } from '../utils/distance';
+
+// Name of the session channel carrying distance travelled
+export const DISTANCE_CHANNEL = 'Distance';
+
+/**
+ * Loads the lap distance series (in metres from the lap start) for a lap, from the
+ * session's Distance channel when it has data, otherwise by integrating the GPS track.
+ * @param hasDistanceChannel Whether the session has a Distance channel.
+ */
+export const loadLapDistance = async (
+  sessionId: string,
+  lap: number,
+  hasDistanceChannel: boolean,
+  options: RequestOptions = {}
+): Promise<ChannelDataPoint[]> => {
+  const distance = hasDistanceChannel
+    ? toLapDistance(await fetchLapChannelData(sessionId, lap, DISTANCE_CHANNEL, options))
+    : [];
+  if (distance.length > 0) {
+    return distance;
+  }
+  // No usable Distance channel: integrate it from GPS instead
+  return distanceFromTrackPath(await fetchLapTrackPath(sessionId, lap, options));
+};
+
+interface UseLapDistanceReturn {
+  distance: ChannelDataPoint[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Keeps the lap distance series of a lap loaded (see loadLapDistance).
+ * Nothing is fetched while `enabled` is false.
+ */
+export const useLapDistance = (
+  sessionId: string,
+  lap: number | null,
+  channels: string[],
+  enabled: boolean = true
+): UseLapDistanceReturn => {
+  const [distance, setDistance] = useState<ChannelDataPoint[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const hasDistanceChannel = channels.includes(DISTANCE_CHANNEL);
+
+  useEffect(() => {
+    let isMounted = true; // Prevent state updates after the lap changes or on unmount
+
+    if (!enabled || !sessionId || lap === null) {
+      // A load cancelled by this change never reaches its own reset
+      setDistance([]);
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels stale requests when the lap changes
+    const { signal } = controller;
+
+    const loadDistance = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await loadLapDistance(sessionId, lap, hasDistanceChannel, { signal });
+        if (isMounted) {
+          setDistance(result);
+        }
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error("Failed to load lap distance:", e);
+        if (isMounted) {
+          setError(e instanceof Error ? e.message : 'An unknown error occurred');
+          setDistance([]);
+        }
+      } finally {
+        if (isMounted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadDistance();
+
+    return () => {
+      isMounted = false;
+      controller.abort();
+    };
+  }, [sessionId, lap, hasDistanceChannel, enabled]);
+
+  return { distance, isLoading, error };
+};
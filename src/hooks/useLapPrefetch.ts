@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+import { fetchLapChannelData, fetchLapTrackPath } from '../api/sessionApi';
+import { isAbortError } from '../api/http';
+import { runTaskQueue } from '../utils/taskQueue';
+
+// Requests allowed in flight at once, leaving room for the ones the user is waiting on
+const PREFETCH_CONCURRENCY = 2;
+
+interface UseLapPrefetchReturn {
+  completed: number;  // Laps whose channels and track path are cached
+  total: number;
+  isPrefetching: boolean;
+}
+
+/**
+ * Warms the channel cache in the background with the given channels and the track path of
+ * every lap, so switching laps does not wait on the network. Restarts when the session, laps
+ * or channels change.
+ * @param channels Every channel the views of a lap load, e.g. the chart, map colour and distance channels.
+ */
+export const useLapPrefetch = (
+  sessionId: string,
+  laps: number[],
+  channels: string[]
+): UseLapPrefetchReturn => {
+  const [completed, setCompleted] = useState<number>(0);
+  const [total, setTotal] = useState<number>(0);
+  const [isPrefetching, setIsPrefetching] = useState<boolean>(false);
+  // Compare channel lists by value so callers can pass a fresh array each render
+  const channelKey = [...new Set(channels.filter(Boolean))].join('\n');
+
+  useEffect(() => {
+    const channelList = channelKey ? channelKey.split('\n') : [];
+    if (!sessionId || channelList.length === 0 || laps.length === 0) {
+      setCompleted(0);
+      setTotal(0);
+      return;
+    }
+
+    const controller = new AbortController(); // Stops the queue when the inputs change
+    const { signal } = controller;
+
+    const tasks = laps.map(lap => () => Promise.all([
+      ...channelList.map(channel => fetchLapChannelData(sessionId, lap, channel, { signal })),
+      fetchLapTrackPath(sessionId, lap, { signal }),
+    ]));
+
+    setCompleted(0);
+    setTotal(laps.length);
+    setIsPrefetching(true);
+
+    runTaskQueue(tasks, {
+      concurrency: PREFETCH_CONCURRENCY,
+      signal,
+      onProgress: (done) => {
+        if (!signal.aborted) setCompleted(done);
+      },
+    }).then(results => {
+      if (signal.aborted) return;
+      const failures = results.filter(result => result.status === 'rejected' && !isAbortError(result.reason));
+      if (failures.length > 0) {
+        // Failed laps are simply fetched again when selected
+        console.warn(`Prefetch of ${channelList.join(', ')} failed for ${failures.length} of ${laps.length} laps.`);
+      }
+      setIsPrefetching(false);
+    });
+
+    return () => {
+      controller.abort();
+      setIsPrefetching(false);
+    };
+  }, [sessionId, laps, channelKey]);
+
+  return { completed, total, isPrefetching };
+};
\ No newline at end of file
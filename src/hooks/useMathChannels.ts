@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SessionData } from '../api/sessionApi';
+import {
+  MathChannelDefinition,
+  getMathChannelScope,
+  loadMathChannels,
+  saveMathChannels,
+  setSessionMathChannels
+} from '../api/mathChannels';
+import { setCustomChannelUnit } from '../utils/channelUnits';
+
+interface UseMathChannelsReturn {
+  definitions: MathChannelDefinition[];
+  saveDefinitions: (definitions: MathChannelDefinition[]) => void;
+}
+
+// Registers math channels so they can be fetched and labelled like native channels
+const registerMathChannels = (sessionId: string, previous: MathChannelDefinition[], next: MathChannelDefinition[]) => {
+  previous.forEach(definition => setCustomChannelUnit(definition.name, null));
+  next.forEach(definition => setCustomChannelUnit(definition.name, definition.unit));
+  setSessionMathChannels(sessionId, next);
+};
+
+/**
+ * Loads the math channels saved for the session's circuit and keeps them registered
+ * with the session API. Channels are only listed once they are registered, so they are
+ * never requested before they can be computed.
+ */
+export const useMathChannels = (sessionId: string, sessionData: SessionData | null): UseMathChannelsReturn => {
+  const [definitions, setDefinitions] = useState<MathChannelDefinition[]>([]);
+  const scope = sessionData ? getMathChannelScope(sessionData) : null;
+  // Channels currently registered, including any saved since they were loaded
+  const registeredRef = useRef<MathChannelDefinition[]>([]);
+
+  useEffect(() => {
+    if (!scope) {
+      setDefinitions([]);
+      return;
+    }
+    const loaded = loadMathChannels(scope);
+    registerMathChannels(sessionId, [], loaded);
+    registeredRef.current = loaded;
+    setDefinitions(loaded);
+
+    return () => {
+      registerMathChannels(sessionId, registeredRef.current, []);
+      registeredRef.current = [];
+    };
+  }, [sessionId, scope]);
+
+  const saveDefinitions = useCallback((next: MathChannelDefinition[]) => {
+    if (!scope) return;
+    saveMathChannels(scope, next);
+    registerMathChannels(sessionId, registeredRef.current, next);
+    registeredRef.current = next;
+    setDefinitions(next);
+  }, [sessionId, scope]);
+
+  return { definitions, saveDefinitions };
+};
\ No newline at end of file
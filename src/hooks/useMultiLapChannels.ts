@@ -0,0 +1,69 @@
+import { useState, useEffect } from 'react';
+import { fetchLapChannelData, ChannelDataPoint } from '../api/sessionApi';
+import { isAbortError } from '../api/http';
+
+interface UseMultiLapChannelsReturn {
+  data: Record<number, Record<string, ChannelDataPoint[]>>; // By lap, then channel
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Loads the same channels for several laps in parallel.
+ * Stale requests are cancelled when the laps or channel list change.
+ */
+export const useMultiLapChannels = (
+  sessionId: string,
+  laps: number[],
+  channels: string[]
+): UseMultiLapChannelsReturn => {
+  const [data, setData] = useState<Record<number, Record<string, ChannelDataPoint[]>>>({});
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Compare lists by value so callers can pass fresh arrays each render
+  const lapKey = laps.join(',');
+  const channelKey = channels.join('\n');
+
+  useEffect(() => {
+    const lapList = lapKey ? lapKey.split(',').map(Number) : [];
+    const channelList = channelKey ? channelKey.split('\n') : [];
+    if (!sessionId || lapList.length === 0 || channelList.length === 0) {
+      // A load cancelled by this change never reaches its own reset
+      setData({});
+      setIsLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController(); // Cancels stale requests when the laps or channels change
+
+    const loadChannels = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const byLap = await Promise.all(lapList.map(async lap => {
+          const series = await Promise.all(
+            channelList.map(channel => fetchLapChannelData(sessionId, lap, channel, { signal: controller.signal }))
+          );
+          return [lap, Object.fromEntries(channelList.map((channel, i) => [channel, series[i]]))] as const;
+        }));
+        setData(Object.fromEntries(byLap));
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error("Failed to load lap channels:", e);
+        setError(e instanceof Error ? e.message : 'An unknown error occurred');
+        setData({});
+      } finally {
+        if (!controller.signal.aborted) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    loadChannels();
+
+    return () => controller.abort();
+  }, [sessionId, lapKey, channelKey]);
+
+  return { data, isLoading, error };
+};
\ No newline at end of file
@@ -1,32 +1,41 @@
 import { useState, useEffect } from 'react';
 import { fetchSessionData, SessionData } from '../api/sessionApi';
+import { SessionValidationError } from '../api/sessionValidation';
+import { isAbortError } from '../api/http';
 
 interface UseSessionDataReturn {
   data: SessionData | null;
   isLoading: boolean;
   error: string | null;
+  // Every problem found when the payload failed validation, null otherwise
+  validationIssues: string[] | null;
 }
 
 export const useSessionData = (sessionId: string): UseSessionDataReturn => {
   const [data, setData] = useState<SessionData | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [validationIssues, setValidationIssues] = useState<string[] | null>(null);
 
   useEffect(() => {
     let isMounted = true; // Prevent state updates on unmounted component
+    const controller = new AbortController(); // Cancels the request when the session changes
 
     const loadData = async () => {
       setIsLoading(true);
       setError(null);
+      setValidationIssues(null);
       try {
-        const result = await fetchSessionData(sessionId);
+        const result = await fetchSessionData(sessionId, { signal: controller.signal });
         if (isMounted) {
           setData(result);
         }
       } catch (e) {
+        if (isAbortError(e)) return;
         console.error("Failed to fetch session data in hook:", e);
         if (isMounted) {
           setError(e instanceof Error ? e.message : 'An unknown error occurred');
+          setValidationIssues(e instanceof SessionValidationError ? e.issues : null);
         }
       } finally {
         if (isMounted) {
@@ -39,8 +48,9 @@ export const useSessionData = (sessionId: string): UseSessionDataReturn => {
 
     return () => {
       isMounted = false;
+      controller.abort();
     };
   }, [sessionId]); // Now depends on sessionId, so it will refetch when the ID changes
 
-  return { data, isLoading, error };
+  return { data, isLoading, error, validationIssues };
 }; 
\ No newline at end of file
@@ -0,0 +1,45 @@
+// src/utils/channelUnits.ts
+
+// Units of the channels LapViz sessions expose; the session payload does not carry them
+const CHANNEL_UNITS: Record<string, string> = {
+  'RPM': 'rpm',
+  'Latitude': 'deg',
+  'Longitude': 'deg',
+  'Altitude': 'm',
+  'GPS Speed': 'km/h',
+  'Speed': 'km/h',
+  'Heading': 'deg',
+  'Accelerometer X Axis': 'g',
+  'Accelerometer Y Axis': 'g',
+  'Accelerometer Z Axis': 'g',
+  'Gyroscope X Axis': 'deg/s',
+  'Gyroscope Y Axis': 'deg/s',
+  'Gyroscope Z Axis': 'deg/s',
+  'Temperature 1': '°C',
+  'Temperature 2': '°C',
+  'Steering Angle': 'deg',
+  'Inverse Corner Radius': '1/m',
+  'Battery Voltage': 'V',
+  'Internal Temperature': '°C',
+  'Pressure': 'hPa',
+  'Barometric Temperature': '°C',
+  'Humidity': '%',
+  'Distance': 'm',
+};
+
+// Units of user-defined math channels
+const customChannelUnits = new Map<string, string>();
+
+/**
+ * Sets or clears the unit of a user-defined channel.
+ */
+export const setCustomChannelUnit = (channel: string, unit: string | null | undefined): void => {
+  if (unit) customChannelUnits.set(channel, unit);
+  else customChannelUnits.delete(channel);
+};
+
+/**
+ * Returns the unit of a channel, or null when it is unknown or dimensionless.
+ */
+export const getChannelUnit = (channel: string): string | null =>
+  CHANNEL_UNITS[channel] ?? customChannelUnits.get(channel) ?? null;
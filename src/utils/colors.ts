@@ -0,0 +1,83 @@
+// src/utils/colors.ts
+
+// Line colours for charts with several channels, assigned in order
+export const SERIES_COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#EC4899'];
+
+// Braking and throttle pickup markers on the chart and map
+export const DRIVING_EVENT_COLORS = { brake: '#DC2626', throttle: '#16A34A' } as const;
+
+/**
+ * Converts a speed to a colour on a red (slow) to green (fast) gradient.
+ * @param speed The speed to colour.
+ * @param minSpeed The speed mapped to pure red.
+ * @param maxSpeed The speed mapped to pure green.
+ * @returns A "#rrggbb" colour string.
+ */
+export const getColorForSpeed = (speed: number, minSpeed: number, maxSpeed: number): string => {
+  // Normalize speed between 0 and 1
+  const normalizedSpeed = Math.min(Math.max((speed - minSpeed) / (maxSpeed - minSpeed), 0), 1);
+  
+  // Convert to RGB values (red to green gradient)
+  const r = Math.round(255 * (1 - normalizedSpeed));
+  const g = Math.round(255 * normalizedSpeed);
+  const b = 0;
+  
+  return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+};
+
+// Colour scales the map can colour the racing line with. Sequential scales run from the
+// lowest to the highest value; diverging scales are centred on zero when the values span it.
+export type ColorScaleName = 'red-green' | 'viridis' | 'inferno' | 'blue-red' | 'purple-green';
+
+export interface ColorScale {
+  label: string;
+  kind: 'sequential' | 'diverging';
+  stops: string[]; // "#rrggbb" colours, evenly spaced from low to high
+}
+
+export const COLOR_SCALES: Record<ColorScaleName, ColorScale> = {
+  'red-green': { label: 'Red to green', kind: 'sequential', stops: ['#ff0000', '#00ff00'] },
+  'viridis': { label: 'Viridis', kind: 'sequential', stops: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+  'inferno': { label: 'Inferno', kind: 'sequential', stops: ['#000004', '#57106e', '#bc3754', '#f98e09', '#fcffa4'] },
+  'blue-red': { label: 'Blue / red', kind: 'diverging', stops: ['#2166ac', '#92c5de', '#f7f7f7', '#f4a582', '#b2182b'] },
+  'purple-green': { label: 'Purple / green', kind: 'diverging', stops: ['#762a83', '#c2a5cf', '#f7f7f7', '#a6dba0', '#1b7837'] },
+};
+
+const parseHexColor = (hex: string): [number, number, number] =>
+  [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+
+/**
+ * The value range a scale maps: the data range for sequential scales, and a range
+ * symmetric about zero for diverging scales when the data has both signs.
+ */
+export const getScaleDomain = (scale: ColorScaleName, min: number, max: number): [number, number] => {
+  if (COLOR_SCALES[scale].kind === 'diverging' && min < 0 && max > 0) {
+    const extent = Math.max(-min, max);
+    return [-extent, extent];
+  }
+  return [min, max];
+};
+
+/**
+ * Converts a value to a colour on a scale.
+ * @param value The value to colour.
+ * @param min The value mapped to the first stop.
+ * @param max The value mapped to the last stop.
+ * @returns A "#rrggbb" colour string.
+ */
+export const getScaleColor = (value: number, min: number, max: number, scale: ColorScaleName): string => {
+  const { stops } = COLOR_SCALES[scale];
+  const normalized = max > min ? Math.min(Math.max((value - min) / (max - min), 0), 1) : 0.5;
+  const position = normalized * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  const from = parseHexColor(stops[index]);
+  const to = parseHexColor(stops[index + 1]);
+  const fraction = position - index;
+  return `#${from.map((channel, i) => Math.round(channel + (to[i] - channel) * fraction).toString(16).padStart(2, '0')).join('')}`;
+};
+
+/**
+ * CSS gradient of a scale, for legends.
+ */
+export const getScaleGradient = (scale: ColorScaleName): string =>
+  `linear-gradient(to right, ${COLOR_SCALES[scale].stops.join(', ')})`;
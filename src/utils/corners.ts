@@ -0,0 +1,187 @@
+// src/utils/corners.ts
+import type { ChannelDataPoint, TrackPathPoint } from '../api/sessionApi';
+import { resampleSeries } from './resample';
+import { distanceAtTimes, distanceFromTrackPath, timeAtDistances, toLocalMeters, valuesAtDistances, MAX_DISTANCE_GAP_METERS } from './distance';
+import { DrivingEvent, brakingPointsForCorners } from './drivingEvents';
+
+// Spacing of the distance grid curvature is analysed on, in metres
+const GRID_STEP_METERS = 2;
+// Half the chord used to measure heading change along the GPS track, in metres
+const HEADING_HALF_CHORD_METERS = 8;
+// Width of the moving average applied to curvature before detection, in metres
+const SMOOTHING_WINDOW_METERS = 20;
+// A corner starts and ends where |curvature| crosses this (radius 250 m)
+const ENTRY_CURVATURE = 1 / 250;
+// ...and only counts if it tightens to at least this somewhere (radius 120 m)
+const APEX_CURVATURE = 1 / 120;
+// Shorter bends are ignored, closer ones are merged into one corner
+const MIN_CORNER_LENGTH_METERS = 15;
+const MERGE_GAP_METERS = 20;
+
+export interface Corner {
+  number: number;          // 1-based, in lap order
+  entryDistance: number;   // Lap distance in metres where the corner starts
+  apexDistance: number;    // Lap distance of the tightest point
+  exitDistance: number;    // Lap distance where the corner ends
+  direction: 'left' | 'right' | null; // null when the curvature source is unsigned
+}
+
+// How one lap went through a corner; NaN where the lap has no data
+export interface CornerMetrics {
+  corner: number;
+  entryTime: number;  // Lap time in seconds at the entry
+  apexTime: number;
+  exitTime: number;
+  duration: number;   // Seconds spent between entry and exit
+  entrySpeed: number;
+  exitSpeed: number;
+  minSpeed: number;
+  brakeDistance: number; // Lap distance of the braking point leading into the corner
+}
+
+/**
+ * Estimates the signed curvature of a lap's GPS track from the change in heading along it.
+ * Positive values turn left, negative values turn right.
+ * @param path The lap's track path.
+ * @returns Points with `s` = lap distance in metres and `d` = curvature in 1/m.
+ */
+export const trackCurvature = (path: TrackPathPoint[]): ChannelDataPoint[] => {
+  const distance = distanceFromTrackPath(path);
+  if (path.length < 3) return [];
+
+  const local = toLocalMeters(path, path[0]);
+  const xs = local.map((point, i) => ({ s: distance[i].d, d: point.x }));
+  const ys = local.map((point, i) => ({ s: distance[i].d, d: point.y }));
+
+  const total = distance[distance.length - 1].d;
+  const grid: number[] = [];
+  for (let d = 0; d <= total; d += GRID_STEP_METERS) grid.push(d);
+  const x = resampleSeries(xs, grid, { maxGap: MAX_DISTANCE_GAP_METERS });
+  const y = resampleSeries(ys, grid, { maxGap: MAX_DISTANCE_GAP_METERS });
+
+  const offset = Math.round(HEADING_HALF_CHORD_METERS / GRID_STEP_METERS);
+  const heading = (from: number, to: number) => Math.atan2(y[to] - y[from], x[to] - x[from]);
+  const result: ChannelDataPoint[] = [];
+  for (let i = offset * 2; i < grid.length - offset * 2; i++) {
+    const before = heading(i - offset * 2, i);
+    const after = heading(i, i + offset * 2);
+    if (!Number.isFinite(before) || !Number.isFinite(after)) continue;
+    // Wrap the heading change into [-π, π]
+    const turn = Math.atan2(Math.sin(after - before), Math.cos(after - before));
+    result.push({ s: grid[i], d: turn / (offset * 2 * GRID_STEP_METERS) });
+  }
+  return result;
+};
+
+/**
+ * Re-indexes a curvature channel (such as Inverse Corner Radius) by lap distance.
+ * @param curvature The channel samples, by time.
+ * @param distance The lap distance series of the same lap.
+ * @returns Points with `s` = lap distance in metres and `d` = curvature.
+ */
+export const curvatureByDistance = (curvature: ChannelDataPoint[], distance: ChannelDataPoint[]): ChannelDataPoint[] => {
+  const distances = distanceAtTimes(distance, curvature.map(point => point.s));
+  return curvature
+    .map((point, i) => ({ s: distances[i], d: point.d }))
+    .filter(point => Number.isFinite(point.s) && Number.isFinite(point.d));
+};
+
+/**
+ * Finds the corners of a lap from its curvature. A corner is a stretch where the smoothed
+ * curvature stays above an entry threshold and peaks above a tighter apex threshold.
+ * @param curvature Curvature by lap distance (`s` in metres, `d` in 1/m).
+ * @param signed Whether the curvature's sign gives the turn direction (positive = left).
+ * @returns The corners, numbered in lap order.
+ */
+export const detectCorners = (curvature: ChannelDataPoint[], signed: boolean = true): Corner[] => {
+  if (curvature.length < 2) return [];
+
+  const start = curvature.reduce((min, point) => Math.min(min, point.s), Infinity);
+  const end = curvature.reduce((max, point) => Math.max(max, point.s), -Infinity);
+  const grid: number[] = [];
+  for (let d = start; d <= end; d += GRID_STEP_METERS) grid.push(d);
+  const raw = resampleSeries(curvature, grid, { maxGap: MAX_DISTANCE_GAP_METERS });
+
+  // Centred moving average, ignoring gaps
+  const half = Math.round(SMOOTHING_WINDOW_METERS / GRID_STEP_METERS / 2);
+  const smoothed = raw.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(raw.length - 1, i + half); j++) {
+      if (!Number.isNaN(raw[j])) { sum += raw[j]; count++; }
+    }
+    return count > 0 ? sum / count : NaN;
+  });
+
+  // Stretches above the entry threshold, as grid index ranges
+  const stretches: Array<{ from: number; to: number }> = [];
+  smoothed.forEach((value, i) => {
+    if (!(Math.abs(value) >= ENTRY_CURVATURE)) return;
+    const last = stretches[stretches.length - 1];
+    const sameDirection = last && Math.sign(smoothed[last.to]) === Math.sign(value);
+    if (last && sameDirection && (i - last.to) * GRID_STEP_METERS <= MERGE_GAP_METERS) {
+      last.to = i;
+    } else {
+      stretches.push({ from: i, to: i });
+    }
+  });
+
+  const corners: Corner[] = [];
+  stretches.forEach(({ from, to }) => {
+    if ((to - from) * GRID_STEP_METERS < MIN_CORNER_LENGTH_METERS) return;
+    let apex = from;
+    for (let i = from; i <= to; i++) {
+      if (Math.abs(smoothed[i]) > Math.abs(smoothed[apex])) apex = i;
+    }
+    if (Math.abs(smoothed[apex]) < APEX_CURVATURE) return;
+    corners.push({
+      number: corners.length + 1,
+      entryDistance: grid[from],
+      apexDistance: grid[apex],
+      exitDistance: grid[to],
+      direction: signed ? (smoothed[apex] > 0 ? 'left' : 'right') : null,
+    });
+  });
+  return corners;
+};
+
+/**
+ * Measures how a lap went through each corner.
+ * @param corners The corners, detected on any lap of the session.
+ * @param distance The lap distance series of the lap being measured.
+ * @param speed The lap's speed channel.
+ * @param events The lap's braking and throttle points, when they have been detected.
+ * @returns One entry per corner, in the same order.
+ */
+export const computeCornerMetrics = (
+  corners: Corner[],
+  distance: ChannelDataPoint[],
+  speed: ChannelDataPoint[],
+  events: DrivingEvent[] = []
+): CornerMetrics[] => {
+  const speedDistances = distanceAtTimes(distance, speed.map(point => point.s));
+  const brakeDistances = brakingPointsForCorners(events, corners.map(corner => corner.apexDistance));
+
+  return corners.map((corner, index) => {
+    const [entryTime, apexTime, exitTime] = timeAtDistances(distance, [corner.entryDistance, corner.apexDistance, corner.exitDistance]);
+    const [entrySpeed, exitSpeed] = valuesAtDistances(speed, distance, [corner.entryDistance, corner.exitDistance]);
+
+    let minSpeed = Infinity;
+    speed.forEach((point, i) => {
+      const d = speedDistances[i];
+      if (d >= corner.entryDistance && d <= corner.exitDistance && point.d < minSpeed) minSpeed = point.d;
+    });
+
+    return {
+      corner: corner.number,
+      entryTime,
+      apexTime,
+      exitTime,
+      duration: exitTime - entryTime,
+      entrySpeed,
+      exitSpeed,
+      minSpeed: Number.isFinite(minSpeed) ? minSpeed : NaN,
+      brakeDistance: brakeDistances[index],
+    };
+  });
+};
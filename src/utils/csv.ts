@@ -0,0 +1,69 @@
+// src/utils/csv.ts
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t'];
+
+// Picks the delimiter that splits the first non-empty lines into the most columns
+const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 20);
+  let best = ',';
+  let bestCount = -1;
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const count = Math.max(0, ...sample.map(line => line.split(delimiter).length - 1));
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Parses CSV text into rows of cells (RFC 4180 quoting, auto-detected delimiter).
+ * Cells are trimmed; empty lines are kept as rows with a single empty cell.
+ * @param text The CSV file contents.
+ * @param delimiter The column delimiter, detected from the content when omitted.
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark, common in Windows exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+  return rows;
+};
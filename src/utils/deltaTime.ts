@@ -0,0 +1,42 @@
+// src/utils/deltaTime.ts
+import type { ChannelDataPoint } from '../api/sessionApi';
+import { resampleSeries } from './resample';
+import { MAX_DISTANCE_GAP_METERS, timeByDistance } from './distance';
+
+// Time difference between two laps at one spot on the track
+export interface DeltaTimePoint {
+  distance: number;  // Lap distance in metres
+  time: number;      // Lap time of the selected lap at this distance, in seconds
+  delta: number;     // Selected lap time minus reference lap time; negative means time gained
+}
+
+/**
+ * Computes the delta-T trace between a lap and a reference lap, aligned by lap distance.
+ * @param lapDistance The selected lap's distance series (metres from the lap start).
+ * @param referenceDistance The reference lap's distance series.
+ * @returns One point per selected lap distance sample where both laps have data.
+ */
+export const computeDeltaTime = (
+  lapDistance: ChannelDataPoint[],
+  referenceDistance: ChannelDataPoint[]
+): DeltaTimePoint[] => {
+  const lap = timeByDistance(lapDistance);
+  const reference = timeByDistance(referenceDistance);
+  if (lap.length === 0 || reference.length === 0) return [];
+
+  // Both laps are measured from their own start, which is where the delta is zero
+  const lapStart = lap[0].d;
+  const referenceStart = reference[0].d;
+  const referenceTimes = resampleSeries(reference, lap.map(point => point.s), { maxGap: MAX_DISTANCE_GAP_METERS });
+
+  const result: DeltaTimePoint[] = [];
+  lap.forEach((point, i) => {
+    if (Number.isNaN(referenceTimes[i])) return;
+    result.push({
+      distance: point.s,
+      time: point.d,
+      delta: (point.d - lapStart) - (referenceTimes[i] - referenceStart),
+    });
+  });
+  return result;
+};
@@ -0,0 +1,119 @@
+// src/utils/distance.ts
+import type { ChannelDataPoint, TrackPathPoint } from '../api/sessionApi';
+import { resampleSeries } from './resample';
+
+// Mean Earth radius in metres
+const EARTH_RADIUS_METERS = 6371000;
+
+// Samples further apart than this along the lap are not interpolated across
+export const MAX_DISTANCE_GAP_METERS = 50;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two coordinates (haversine formula).
+ * @returns The distance in metres.
+ */
+export const haversineDistance = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Projects coordinates onto a flat plane around an origin, which is accurate enough
+ * over the extent of a circuit.
+ * @returns x (east) and y (north) offsets from the origin, in metres.
+ */
+export const toLocalMeters = (
+  points: Array<{ lat: number; lng: number }>,
+  origin: { lat: number; lng: number }
+): Array<{ x: number; y: number }> => {
+  const metersPerDegree = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  const cosLat = Math.cos(toRadians(origin.lat));
+  return points.map(point => ({
+    x: (point.lng - origin.lng) * metersPerDegree * cosLat,
+    y: (point.lat - origin.lat) * metersPerDegree,
+  }));
+};
+
+/**
+ * Integrates the distance travelled along a GPS track.
+ * @param path The lap's track path.
+ * @returns Cumulative distance in metres at each track point's time.
+ */
+export const distanceFromTrackPath = (path: TrackPathPoint[]): ChannelDataPoint[] => {
+  let total = 0;
+  return path.map((point, i) => {
+    if (i > 0) total += haversineDistance(path[i - 1], point);
+    return { s: point.s, d: total };
+  });
+};
+
+/**
+ * Rebases a distance series so the lap starts at zero.
+ * The `Distance` channel may count from the session start rather than the lap start.
+ */
+export const toLapDistance = (distance: ChannelDataPoint[]): ChannelDataPoint[] => {
+  const first = distance.find(point => Number.isFinite(point.d));
+  if (!first) return [];
+  return distance.map(point => ({ s: point.s, d: point.d - first.d }));
+};
+
+/**
+ * Looks up the lap distance at each of the given times.
+ * @param distance The lap distance series.
+ * @param timestamps Times in seconds.
+ * @returns Distances in metres, NaN where the distance series has no data.
+ */
+export const distanceAtTimes = (distance: ChannelDataPoint[], timestamps: number[]): number[] =>
+  resampleSeries(distance, timestamps);
+
+/**
+ * Samples a lap's channel at given lap distances, so two laps can be compared point by point
+ * regardless of how long each took to reach a given spot on the track.
+ * @param series The channel samples of the lap.
+ * @param distance The lap distance series of the same lap.
+ * @param distances Lap distances in metres to sample at.
+ * @returns One value per distance, NaN where the lap has no data.
+ */
+export const valuesAtDistances = (
+  series: ChannelDataPoint[],
+  distance: ChannelDataPoint[],
+  distances: number[]
+): number[] => {
+  const seriesDistances = distanceAtTimes(distance, series.map(point => point.s));
+  const byDistance = series.map((point, i) => ({ s: seriesDistances[i], d: point.d }));
+  return resampleSeries(byDistance, distances, { maxGap: MAX_DISTANCE_GAP_METERS });
+};
+
+/**
+ * Inverts a lap distance series into lap time as a function of distance. Only samples
+ * where the car has moved forward are kept, so the result is strictly increasing in `s`.
+ * @param distance The lap distance series.
+ * @returns Points with `s` = distance in metres and `d` = lap time in seconds.
+ */
+export const timeByDistance = (distance: ChannelDataPoint[]): ChannelDataPoint[] => {
+  const result: ChannelDataPoint[] = [];
+  distance.forEach(point => {
+    if (!Number.isFinite(point.s) || !Number.isFinite(point.d)) return;
+    if (result.length > 0 && point.d <= result[result.length - 1].s) return;
+    result.push({ s: point.d, d: point.s });
+  });
+  return result;
+};
+
+/**
+ * Looks up the lap time at which each of the given distances was reached.
+ * @param distance The lap distance series.
+ * @param distances Lap distances in metres.
+ * @returns Times in seconds, NaN where the distance series has no data.
+ */
+export const timeAtDistances = (distance: ChannelDataPoint[], distances: number[]): number[] =>
+  resampleSeries(timeByDistance(distance), distances, { maxGap: MAX_DISTANCE_GAP_METERS });
@@ -0,0 +1,151 @@
+// src/utils/drivingEvents.ts
+import type { ChannelDataPoint } from '../api/sessionApi';
+import { resampleSeries } from './resample';
+import { distanceAtTimes } from './distance';
+
+// Signals are analysed on a regular time grid with this spacing, in seconds
+const SAMPLE_STEP_SECONDS = 0.05;
+// Width of the moving average applied to longitudinal acceleration, in seconds
+const SMOOTHING_SECONDS = 0.3;
+// Deceleration that counts as braking hard, and how long it must last
+const BRAKING_G = 0.4;
+const MIN_BRAKING_SECONDS = 0.3;
+// The braking point is where deceleration first passed this on the way into a braking zone
+const BRAKE_ONSET_G = 0.1;
+// The throttle is picked up where acceleration passes this after a braking zone and holds
+const THROTTLE_G = 0.05;
+const MIN_THROTTLE_SECONDS = 0.3;
+
+const STANDARD_GRAVITY = 9.80665;
+const KMH_TO_MS = 1 / 3.6;
+
+export interface DrivingEvent {
+  type: 'brake' | 'throttle';
+  time: number;     // Lap time in seconds
+  distance: number; // Lap distance in metres, NaN when unknown
+  speed: number;    // Speed channel value at the event
+}
+
+// Centred moving average over a number of samples, ignoring gaps
+const movingAverage = (values: number[], window: number): number[] => {
+  const half = Math.floor(window / 2);
+  return values.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - half); j <= Math.min(values.length - 1, i + half); j++) {
+      if (!Number.isNaN(values[j])) { sum += values[j]; count++; }
+    }
+    return count > 0 ? sum / count : NaN;
+  });
+};
+
+/**
+ * Finds the braking points (onset of strong deceleration) and throttle pickup points of a lap.
+ * Longitudinal acceleration comes from the accelerometer when given, otherwise from the
+ * change in speed.
+ * @param speed The lap's speed channel, in km/h.
+ * @param distance The lap distance series.
+ * @param longitudinal The lap's longitudinal accelerometer channel in g, if the session has one.
+ * @returns The events in lap order; every braking point is followed by at most one throttle pickup.
+ */
+export const detectDrivingEvents = (
+  speed: ChannelDataPoint[],
+  distance: ChannelDataPoint[],
+  longitudinal?: ChannelDataPoint[]
+): DrivingEvent[] => {
+  const times = speed.map(point => point.s).filter(s => Number.isFinite(s));
+  if (times.length < 2) return [];
+  const start = Math.min(...times);
+  const end = Math.max(...times);
+  const grid: number[] = [];
+  for (let t = start; t <= end; t += SAMPLE_STEP_SECONDS) grid.push(t);
+
+  const speeds = resampleSeries(speed, grid);
+  const fromSpeed = speeds.map((_, i) => {
+    const before = Math.max(0, i - 1);
+    const after = Math.min(speeds.length - 1, i + 1);
+    return ((speeds[after] - speeds[before]) * KMH_TO_MS) / ((grid[after] - grid[before]) * STANDARD_GRAVITY);
+  });
+
+  let acceleration = fromSpeed;
+  if (longitudinal && longitudinal.length > 0) {
+    const measured = resampleSeries(longitudinal, grid);
+    // Accelerometers are mounted either way round: orient the axis so it agrees with the speed trace
+    let agreement = 0;
+    measured.forEach((value, i) => {
+      if (Number.isFinite(value) && Number.isFinite(fromSpeed[i])) agreement += value * fromSpeed[i];
+    });
+    acceleration = agreement < 0 ? measured.map(value => -value) : measured;
+  }
+  const smoothed = movingAverage(acceleration, Math.round(SMOOTHING_SECONDS / SAMPLE_STEP_SECONDS));
+
+  const minBrakingSamples = Math.round(MIN_BRAKING_SECONDS / SAMPLE_STEP_SECONDS);
+  const minThrottleSamples = Math.round(MIN_THROTTLE_SECONDS / SAMPLE_STEP_SECONDS);
+  // Whether a condition holds for `length` samples from `from`
+  const holds = (from: number, length: number, test: (value: number) => boolean) => {
+    if (from + length > smoothed.length) return false;
+    for (let j = from; j < from + length; j++) {
+      if (!test(smoothed[j])) return false;
+    }
+    return true;
+  };
+
+  const indices: Array<{ type: DrivingEvent['type']; index: number }> = [];
+  let i = 0;
+  while (i < smoothed.length) {
+    if (!holds(i, minBrakingSamples, value => value <= -BRAKING_G)) {
+      i++;
+      continue;
+    }
+    // Walk back to where the deceleration started building
+    let onset = i;
+    const floor = indices.length > 0 ? indices[indices.length - 1].index : 0;
+    while (onset > floor && smoothed[onset - 1] < -BRAKE_ONSET_G) onset--;
+    indices.push({ type: 'brake', index: onset });
+
+    // Skip the rest of the braking zone, then look for sustained acceleration
+    while (i < smoothed.length && !(smoothed[i] > -BRAKE_ONSET_G)) i++;
+    let pickup = i;
+    while (pickup < smoothed.length && !holds(pickup, minThrottleSamples, value => value >= THROTTLE_G)) {
+      // Braking hard again before accelerating: no pickup for this zone
+      if (smoothed[pickup] <= -BRAKING_G) break;
+      pickup++;
+    }
+    if (pickup < smoothed.length && smoothed[pickup] >= THROTTLE_G) {
+      indices.push({ type: 'throttle', index: pickup });
+    }
+    i = Math.max(i, pickup);
+  }
+
+  const eventTimes = indices.map(({ index }) => grid[index]);
+  const eventDistances = distanceAtTimes(distance, eventTimes);
+  return indices.map(({ type, index }, k) => ({
+    type,
+    time: grid[index],
+    distance: eventDistances[k],
+    speed: speeds[index],
+  }));
+};
+
+/**
+ * Picks the braking point leading into each corner: the last one between the previous
+ * corner's apex and this corner's apex.
+ * @param events The lap's driving events.
+ * @param apexDistances Lap distance of each corner's apex, in lap order.
+ * @returns One braking point distance per corner, NaN when the driver did not brake for it.
+ */
+export const brakingPointsForCorners = (events: DrivingEvent[], apexDistances: number[]): number[] =>
+  apexDistances.map((apex, i) => {
+    const previousApex = i > 0 ? apexDistances[i - 1] : -Infinity;
+    const candidates = events.filter(event =>
+      event.type === 'brake' && event.distance > previousApex && event.distance < apex);
+    return candidates.length > 0 ? candidates[candidates.length - 1].distance : NaN;
+  });
+
+/**
+ * Describes an event for a marker's label, leaving out the distance when the lap has none.
+ */
+export const describeDrivingEvent = (event: DrivingEvent): string => {
+  const name = event.type === 'brake' ? 'Braking point' : 'Throttle pickup';
+  return Number.isFinite(event.distance) ? `${name} at ${event.distance.toFixed(0)}m` : name;
+};
@@ -0,0 +1,99 @@
+// src/utils/exportData.ts
+import type { ChannelDataPoint, SessionData } from '../api/sessionApi';
+import type { LapTiming } from './lapTimeline';
+import { alignChannels } from './resample';
+import { getChannelUnit } from './channelUnits';
+
+// Channel data of one lap, keyed by channel name
+export interface LapChannelExport {
+  lap: number;
+  timing?: LapTiming;
+  data: Record<string, ChannelDataPoint[]>;
+}
+
+// Quotes a CSV cell when it contains a delimiter, quote or line break
+const csvCell = (value: string | number): string => {
+  const text = typeof value === 'number' ? (Number.isNaN(value) ? '' : String(value)) : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const channelHeader = (channel: string): string => {
+  const unit = getChannelUnit(channel);
+  return unit ? `${channel} (${unit})` : channel;
+};
+
+/**
+ * Builds a CSV with one row per timestamp and one column per channel.
+ * Within each lap the channels are time-aligned with linear interpolation;
+ * cells are empty where a channel has no data.
+ * @param laps The laps to export.
+ * @param channels The channels to export, in column order.
+ */
+export const buildChannelCsv = (laps: LapChannelExport[], channels: string[]): string => {
+  const lines = [['Lap', 'Time (s)', ...channels.map(channelHeader)].map(csvCell).join(',')];
+  laps.forEach(({ lap, data }) => {
+    const series = channels.map(channel => data[channel] ?? []);
+    // Sample every channel at every timestamp any of them has
+    const timestamps = [...new Set(series.flatMap(points => points.map(point => point.s)))]
+      .filter(s => Number.isFinite(s))
+      .sort((a, b) => a - b);
+    const rows = alignChannels(series, { timestamps, keepIncomplete: true });
+    rows.forEach(({ s, values }) => {
+      lines.push([lap, Number(s.toFixed(3)), ...values].map(csvCell).join(','));
+    });
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+/**
+ * Builds a JSON document with a session header (metadata, channel units, lap timings)
+ * followed by the raw samples of every exported channel per lap.
+ * @param session The session the laps belong to.
+ * @param laps The laps to export.
+ * @param channels The exported channels.
+ */
+export const buildChannelJson = (session: SessionData, laps: LapChannelExport[], channels: string[]): string => {
+  const document = {
+    header: {
+      shareId: session.shareId,
+      driver: session.driver?.displayName ?? null,
+      circuit: session.circuit?.venue ?? null,
+      location: session.circuit?.location ?? null,
+      start: session.start,
+      end: session.end,
+      best: session.best,
+      exportedAt: new Date().toISOString(),
+      channels: channels.map(channel => ({ name: channel, unit: getChannelUnit(channel) })),
+      laps: laps.map(({ lap, timing }) => ({
+        lap,
+        start: timing?.start ?? null,
+        end: timing?.end ?? null,
+        duration: timing?.duration ?? null,
+        sectors: timing?.sectors ?? [],
+      })),
+    },
+    laps: laps.map(({ lap, data }) => ({
+      lap,
+      channels: Object.fromEntries(channels.map(channel => [channel, data[channel] ?? []])),
+    })),
+  };
+  return JSON.stringify(document, null, 2);
+};
+
+/**
+ * Saves text content as a file through a temporary download link.
+ * @param content The file contents.
+ * @param fileName The suggested file name.
+ * @param mimeType The MIME type of the content.
+ */
+export const downloadFile = (content: string, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke asynchronously so the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,57 @@
+// src/utils/ggDiagram.ts
+
+// Angular sectors the envelope is measured in
+const ENVELOPE_SECTORS = 36;
+// Share of the samples in a sector the envelope encloses; ignores isolated IMU spikes
+const ENVELOPE_PERCENTILE = 0.95;
+
+export interface GGPoint {
+  time: number;         // Lap time in seconds
+  lateral: number;      // g
+  longitudinal: number; // g
+  speed?: number;
+}
+
+export interface GGEnvelope {
+  // Outline of the used grip, one vertex per sector with samples, in angular order
+  outline: Array<{ lateral: number; longitudinal: number }>;
+  peak: number;        // Largest envelope radius, in g
+  utilisation: number; // Envelope area as a share of the circle of radius `peak` (0-1)
+}
+
+/**
+ * Measures how much of the grip circle a lap uses. The envelope is the 95th percentile
+ * of combined acceleration in each direction.
+ * @param points The lap's acceleration samples.
+ * @returns The envelope, or null when there are too few samples to outline one.
+ */
+export const computeGGEnvelope = (points: GGPoint[]): GGEnvelope | null => {
+  const sectors: number[][] = Array.from({ length: ENVELOPE_SECTORS }, () => []);
+  points.forEach(point => {
+    const angle = Math.atan2(point.longitudinal, point.lateral);
+    const sector = Math.floor(((angle + Math.PI) / (2 * Math.PI)) * ENVELOPE_SECTORS) % ENVELOPE_SECTORS;
+    sectors[sector].push(Math.hypot(point.lateral, point.longitudinal));
+  });
+
+  const outline: GGEnvelope['outline'] = [];
+  sectors.forEach((radii, sector) => {
+    if (radii.length === 0) return;
+    radii.sort((a, b) => a - b);
+    const radius = radii[Math.min(radii.length - 1, Math.floor(radii.length * ENVELOPE_PERCENTILE))];
+    // Vertex in the middle of the sector
+    const angle = ((sector + 0.5) / ENVELOPE_SECTORS) * 2 * Math.PI - Math.PI;
+    outline.push({ lateral: radius * Math.cos(angle), longitudinal: radius * Math.sin(angle) });
+  });
+  if (outline.length < 3) return null;
+
+  const peak = Math.max(...outline.map(vertex => Math.hypot(vertex.lateral, vertex.longitudinal)));
+  // Shoelace formula over the outline polygon
+  let area = 0;
+  outline.forEach((vertex, i) => {
+    const next = outline[(i + 1) % outline.length];
+    area += vertex.lateral * next.longitudinal - next.lateral * vertex.longitudinal;
+  });
+  const utilisation = peak > 0 ? Math.abs(area) / 2 / (Math.PI * peak * peak) : 0;
+
+  return { outline, peak, utilisation };
+};
@@ -0,0 +1,102 @@
+// src/utils/gpsQuality.ts
+import type { ChannelDataPoint, TrackPathPoint } from '../api/sessionApi';
+import { DEFAULT_MAX_GAP_SECONDS } from './resample';
+import { haversineDistance } from './distance';
+
+export type DopChannel = 'Positional DOP' | 'Horizontal DOP' | 'Vertical DOP';
+export const DOP_CHANNELS: DopChannel[] = ['Positional DOP', 'Horizontal DOP', 'Vertical DOP'];
+
+// Limits beyond which the GPS fix is not trusted
+export interface GpsQualityThresholds {
+  maxDop: Record<DopChannel, number>;
+  maxJumpSpeed: number; // Speed implied by consecutive fixes above which a fix is a jump, in m/s
+  minLapScore: number;  // Laps scoring below this percentage are flagged
+}
+
+export const DEFAULT_GPS_QUALITY_THRESHOLDS: GpsQualityThresholds = {
+  maxDop: { 'Positional DOP': 5, 'Horizontal DOP': 3, 'Vertical DOP': 5 },
+  maxJumpSpeed: 120, // About 430 km/h
+  minLapScore: 95,
+};
+
+export type GpsIssue = 'dop' | 'jump';
+
+// Stretch of a lap, in lap time, where the GPS position is not trusted
+export interface GpsFlaggedRange {
+  start: number; // Seconds
+  end: number;
+  issues: GpsIssue[];
+}
+
+export interface GpsQuality {
+  score: number;          // Percentage of the lap's time with a trusted fix
+  flaggedSeconds: number;
+  flaggedRanges: GpsFlaggedRange[];
+}
+
+// Joins overlapping ranges, keeping every issue that applies to the joined range
+const mergeRanges = (ranges: GpsFlaggedRange[]): GpsFlaggedRange[] => {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: GpsFlaggedRange[] = [];
+  sorted.forEach(range => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+      range.issues.forEach(issue => {
+        if (!last.issues.includes(issue)) last.issues.push(issue);
+      });
+    } else {
+      merged.push({ ...range, issues: [...range.issues] });
+    }
+  });
+  return merged;
+};
+
+/**
+ * Flags the parts of a lap with an untrustworthy GPS fix: where a DOP channel exceeds its
+ * threshold, or where consecutive positions are further apart than the car could travel.
+ * @param path The lap's track path.
+ * @param dop The lap's DOP channels; channels the session does not log are left out.
+ * @param thresholds The limits to apply.
+ * @returns The flagged ranges and a score for the lap; a lap without data scores 100.
+ */
+export const assessGpsQuality = (
+  path: TrackPathPoint[],
+  dop: Partial<Record<DopChannel, ChannelDataPoint[]>>,
+  thresholds: GpsQualityThresholds
+): GpsQuality => {
+  const ranges: GpsFlaggedRange[] = [];
+
+  // A jump flags the time between the two fixes
+  for (let i = 1; i < path.length; i++) {
+    const dt = path[i].s - path[i - 1].s;
+    if (!(dt > 0)) continue;
+    if (haversineDistance(path[i - 1], path[i]) / dt > thresholds.maxJumpSpeed) {
+      ranges.push({ start: path[i - 1].s, end: path[i].s, issues: ['jump'] });
+    }
+  }
+
+  // A DOP sample over the limit flags the time until the next sample
+  DOP_CHANNELS.forEach(channel => {
+    const series = (dop[channel] ?? [])
+      .filter(point => Number.isFinite(point.s) && Number.isFinite(point.d))
+      .sort((a, b) => a.s - b.s);
+    series.forEach((point, i) => {
+      if (point.d <= thresholds.maxDop[channel]) return;
+      const next = i < series.length - 1 ? series[i + 1].s : point.s;
+      ranges.push({ start: point.s, end: Math.min(next, point.s + DEFAULT_MAX_GAP_SECONDS), issues: ['dop'] });
+    });
+  });
+
+  const flaggedRanges = mergeRanges(ranges);
+  const flaggedSeconds = flaggedRanges.reduce((sum, range) => sum + (range.end - range.start), 0);
+  const lapSeconds = path.length > 1 ? path[path.length - 1].s - path[0].s : 0;
+  const score = lapSeconds > 0 ? Math.max(0, 100 * (1 - flaggedSeconds / lapSeconds)) : 100;
+  return { score, flaggedSeconds, flaggedRanges };
+};
+
+/**
+ * Whether a lap's GPS is too poor to trust its line and distance.
+ */
+export const isLapGpsFlagged = (quality: GpsQuality, thresholds: GpsQualityThresholds): boolean =>
+  quality.score < thresholds.minLapScore;
@@ -0,0 +1,97 @@
+// src/utils/histogram.ts
+import type { ChannelDataPoint } from '../api/sessionApi';
+import { DEFAULT_MAX_GAP_SECONDS } from './resample';
+
+export interface HistogramBin {
+  start: number;   // Lower edge, inclusive
+  end: number;     // Upper edge, exclusive
+  seconds: number; // Time spent in the bin
+}
+
+// A sample's value and how long it held, until the next sample
+interface TimedValue {
+  value: number;
+  duration: number;
+}
+
+// Each sample holds its value until the next one; the last sample and samples before a gap hold for no time
+const toTimedValues = (series: ChannelDataPoint[]): TimedValue[] => {
+  const clean = series
+    .filter(point => Number.isFinite(point.s) && Number.isFinite(point.d))
+    .sort((a, b) => a.s - b.s);
+  return clean.map((point, i) => {
+    const dt = i < clean.length - 1 ? clean[i + 1].s - point.s : 0;
+    return { value: point.d, duration: dt <= DEFAULT_MAX_GAP_SECONDS ? dt : 0 };
+  });
+};
+
+/**
+ * A round bin width giving roughly the requested number of bins over a range.
+ */
+export const suggestBinWidth = (min: number, max: number, targetBins: number = 30): number => {
+  const rawWidth = (max - min) / targetBins;
+  if (!(rawWidth > 0)) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawWidth)));
+  return [1, 2, 5, 10].map(factor => factor * magnitude).find(width => width >= rawWidth) as number;
+};
+
+/**
+ * Counts the time a channel spent in each bin. Bin edges are multiples of the bin width,
+ * so histograms of several laps built with the same width line up.
+ * @param series The channel samples of one lap.
+ * @param binWidth The width of each bin, in the channel's unit.
+ * @param range Value range the bins must cover; defaults to the series' own range.
+ * @returns The bins in ascending order, including empty ones.
+ */
+export const computeTimeHistogram = (
+  series: ChannelDataPoint[],
+  binWidth: number,
+  range?: [number, number]
+): HistogramBin[] => {
+  const timed = toTimedValues(series);
+  if (timed.length === 0 || !(binWidth > 0)) return [];
+  const [min, max] = range ?? [
+    Math.min(...timed.map(sample => sample.value)),
+    Math.max(...timed.map(sample => sample.value)),
+  ];
+
+  const firstEdge = Math.floor(min / binWidth) * binWidth;
+  const binCount = Math.max(1, Math.floor((max - firstEdge) / binWidth) + 1);
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    start: firstEdge + i * binWidth,
+    end: firstEdge + (i + 1) * binWidth,
+    seconds: 0,
+  }));
+  timed.forEach(({ value, duration }) => {
+    const index = Math.floor((value - firstEdge) / binWidth);
+    if (index >= 0 && index < binCount) bins[index].seconds += duration;
+  });
+  return bins;
+};
+
+/**
+ * Time-weighted percentile of a channel: the value the channel stayed at or below
+ * for the given share of the lap.
+ * @param series The channel samples of one lap.
+ * @param percentile Between 0 and 100.
+ * @returns The value, or NaN when the series holds no time.
+ */
+export const timeWeightedPercentile = (series: ChannelDataPoint[], percentile: number): number => {
+  const timed = toTimedValues(series).filter(sample => sample.duration > 0).sort((a, b) => a.value - b.value);
+  const total = timed.reduce((sum, sample) => sum + sample.duration, 0);
+  if (total === 0) return NaN;
+  const target = (Math.min(Math.max(percentile, 0), 100) / 100) * total;
+  let elapsed = 0;
+  for (const sample of timed) {
+    elapsed += sample.duration;
+    if (elapsed >= target) return sample.value;
+  }
+  return timed[timed.length - 1].value;
+};
+
+/**
+ * Time a channel spent above a threshold, e.g. how long the engine was above 14000 RPM.
+ * @returns The time in seconds.
+ */
+export const timeAbove = (series: ChannelDataPoint[], threshold: number): number =>
+  toTimedValues(series).reduce((sum, sample) => (sample.value > threshold ? sum + sample.duration : sum), 0);
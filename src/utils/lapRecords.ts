@@ -0,0 +1,74 @@
+// src/utils/lapRecords.ts
+import type { LapTimeline } from './lapTimeline';
+
+// Timing-screen colours: purple for the session best, green for a new personal best when it was set
+export type TimeHighlight = 'session-best' | 'personal-best' | null;
+
+export interface LapRecords {
+  sectorNumbers: number[];                  // Sectors present in the session, sorted
+  bestLapTime: number | null;
+  bestSectorTimes: Map<number, number>;     // Best time of each sector
+  theoreticalBest: number | null;           // Sum of the best sectors, null if a sector has no time
+  getLapHighlight: (lap: number) => TimeHighlight;
+  getSectorHighlight: (lap: number, sector: number) => TimeHighlight;
+}
+
+// Marks the fastest time purple and every time that beat all earlier laps green;
+// the first timed lap has nothing to improve on and stays unmarked
+const highlightTimes = (times: Array<{ lap: number; time: number }>): Map<number, TimeHighlight> => {
+  const highlights = new Map<number, TimeHighlight>();
+  const valid = times.filter(entry => entry.time > 0);
+  if (valid.length === 0) return highlights;
+
+  const best = Math.min(...valid.map(entry => entry.time));
+  let runningBest = Infinity;
+  let sessionBestMarked = false;
+  valid.forEach(({ lap, time }) => {
+    if (time === best && !sessionBestMarked) {
+      highlights.set(lap, 'session-best');
+      sessionBestMarked = true;
+    } else if (runningBest !== Infinity && time < runningBest) {
+      highlights.set(lap, 'personal-best');
+    }
+    runningBest = Math.min(runningBest, time);
+  });
+  return highlights;
+};
+
+/**
+ * Works out best lap and sector times and the highlight of every time in the lap table.
+ * Laps and sectors without a time (zero duration) are ignored.
+ * @param timeline The session lap timeline.
+ */
+export const buildLapRecords = (timeline: LapTimeline): LapRecords => {
+  const sectorNumbers = [...new Set(timeline.laps.flatMap(lap => lap.sectors.map(split => split.sector)))]
+    .sort((a, b) => a - b);
+
+  const lapHighlights = highlightTimes(timeline.laps.map(lap => ({ lap: lap.lap, time: lap.duration })));
+  const lapTimes = timeline.laps.map(lap => lap.duration).filter(time => time > 0);
+
+  const sectorHighlights = new Map<number, Map<number, TimeHighlight>>();
+  const bestSectorTimes = new Map<number, number>();
+  sectorNumbers.forEach(sector => {
+    const times = timeline.laps.map(lap => ({
+      lap: lap.lap,
+      time: lap.sectors.find(split => split.sector === sector)?.duration ?? 0,
+    }));
+    sectorHighlights.set(sector, highlightTimes(times));
+    const valid = times.filter(entry => entry.time > 0).map(entry => entry.time);
+    if (valid.length > 0) bestSectorTimes.set(sector, Math.min(...valid));
+  });
+
+  const hasEverySector = sectorNumbers.length > 0 && sectorNumbers.every(sector => bestSectorTimes.has(sector));
+
+  return {
+    sectorNumbers,
+    bestLapTime: lapTimes.length > 0 ? Math.min(...lapTimes) : null,
+    bestSectorTimes,
+    theoreticalBest: hasEverySector
+      ? sectorNumbers.reduce((sum, sector) => sum + (bestSectorTimes.get(sector) ?? 0), 0)
+      : null,
+    getLapHighlight: (lap) => lapHighlights.get(lap) ?? null,
+    getSectorHighlight: (lap, sector) => sectorHighlights.get(sector)?.get(lap) ?? null,
+  };
+};
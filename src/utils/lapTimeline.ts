@@ -0,0 +1,95 @@
+// src/utils/lapTimeline.ts
+import type { SessionEvent, LapEvent, SectorEvent } from '../api/sessionApi';
+import { parseTimeSpan } from './time';
+
+// Timing of one sector, in seconds from the session start
+export interface SectorSplit {
+  sector: number;
+  start: number;
+  end: number;
+  duration: number;
+}
+
+// Timing of one lap, in seconds from the session start
+export interface LapTiming {
+  lap: number;
+  start: number;
+  end: number;
+  duration: number;
+  sectors: SectorSplit[];
+}
+
+export interface LapTimeline {
+  laps: LapTiming[];       // Sorted by lap number
+  lapNumbers: number[];    // Lap numbers available for selection
+  getLap: (lap: number) => LapTiming | undefined;
+}
+
+const isLapEvent = (event: SessionEvent): event is LapEvent => event.type === 'lap';
+const isSectorEvent = (event: SessionEvent): event is SectorEvent => event.type === 'sector';
+
+/**
+ * Builds the lap timeline of a session from its lap and sector events.
+ * @param events The validated session events.
+ * @returns The laps with their start, end, duration and sector splits.
+ */
+export const buildLapTimeline = (events: SessionEvent[] | undefined): LapTimeline => {
+  const sectorsByLap = new Map<number, SectorSplit[]>();
+  (events ?? []).filter(isSectorEvent).forEach(event => {
+    const duration = parseTimeSpan(event.time) ?? 0;
+    const splits = sectorsByLap.get(event.lap) ?? [];
+    splits.push({
+      sector: event.sector,
+      start: event.startSecond,
+      end: event.startSecond + duration,
+      duration,
+    });
+    sectorsByLap.set(event.lap, splits);
+  });
+
+  const laps = (events ?? [])
+    .filter(isLapEvent)
+    .map(event => {
+      const duration = parseTimeSpan(event.time) ?? 0;
+      return {
+        lap: event.lap,
+        start: event.startSecond,
+        end: event.startSecond + duration,
+        duration,
+        sectors: (sectorsByLap.get(event.lap) ?? []).sort((a, b) => a.sector - b.sector),
+      };
+    })
+    .sort((a, b) => a.lap - b.lap);
+
+  const lapsByNumber = new Map(laps.map(lap => [lap.lap, lap]));
+
+  return {
+    laps,
+    lapNumbers: laps.map(lap => lap.lap),
+    getLap: (lap) => lapsByNumber.get(lap),
+  };
+};
+
+/**
+ * Finds the session's fastest lap: the lap whose time matches the session best when it is
+ * known, otherwise the shortest timed lap.
+ * @param timeline The session lap timeline.
+ * @param best The session best lap time as a TimeSpan string (`SessionData.best`).
+ * @param excludedLaps Laps that may not count as fastest, such as laps with poor GPS.
+ * @returns The fastest lap number, or null when no lap has a time.
+ */
+export const findFastestLap = (
+  timeline: LapTimeline,
+  best: string | null | undefined,
+  excludedLaps: number[] = []
+): number | null => {
+  const timedLaps = timeline.laps.filter(lap => lap.duration > 0 && !excludedLaps.includes(lap.lap));
+  const bestSeconds = best ? parseTimeSpan(best) : null;
+  if (bestSeconds !== null) {
+    // Lap times are rounded differently in the events and the session summary
+    const match = timedLaps.find(lap => Math.abs(lap.duration - bestSeconds) < 0.001);
+    if (match) return match.lap;
+  }
+  if (timedLaps.length === 0) return null;
+  return timedLaps.reduce((fastest, lap) => (lap.duration < fastest.duration ? lap : fastest)).lap;
+};
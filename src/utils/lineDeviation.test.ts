@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { TrackPathPoint } from '../api/sessionApi';
+import { computeLineDeviation } from './lineDeviation';
+
+const CENTER = { lat: 50.4372, lng: 5.9714 };
+const METERS_PER_DEGREE = (6371000 * Math.PI) / 180;
+
+// A lap around a circle, driven anticlockwise from `startAngle` at 25 m/s with a fix every 0.1 s
+const circleLap = (radius: number, startAngle: number): TrackPathPoint[] => {
+  const step = 2.5 / radius;
+  const count = Math.ceil((2 * Math.PI) / step);
+  return Array.from({ length: count + 1 }, (_, i) => {
+    const angle = startAngle + i * step;
+    return {
+      s: i * 0.1,
+      lat: CENTER.lat + (radius * Math.sin(angle)) / METERS_PER_DEGREE,
+      lng: CENTER.lng + (radius * Math.cos(angle)) / (METERS_PER_DEGREE * Math.cos((CENTER.lat * Math.PI) / 180)),
+    };
+  });
+};
+
+describe('computeLineDeviation', () => {
+  it('matches a lap that starts just before the reference on a closed circuit', () => {
+    const reference = circleLap(100, 0);
+    // Two metres wide of the reference, crossing the start line a few metres earlier
+    const lap = circleLap(102, -0.04);
+
+    const deviation = computeLineDeviation(lap, reference);
+
+    expect(deviation).toHaveLength(lap.length);
+    deviation.forEach(point => {
+      expect(point.offset).toBeCloseTo(-2, 1);
+    });
+  });
+
+  it('matches a lap that starts just after the reference', () => {
+    const reference = circleLap(100, -0.04);
+    const lap = circleLap(98, 0);
+
+    computeLineDeviation(lap, reference).forEach(point => {
+      expect(point.offset).toBeCloseTo(2, 1);
+    });
+  });
+
+  it('leaves points further from the reference than a track is wide unmatched', () => {
+    const reference = circleLap(100, 0);
+    const lap = circleLap(150, 0);
+
+    computeLineDeviation(lap, reference).forEach(point => {
+      expect(point.offset).toBeNaN();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+// src/utils/lineDeviation.ts
+import type { TrackPathPoint } from '../api/sessionApi';
+import { distanceFromTrackPath, haversineDistance, toLocalMeters } from './distance';
+
+// Reference segments searched either side of the previous match; keeps the search local
+// so a point is never matched to another part of the circuit that passes close by
+const SEARCH_WINDOW_SEGMENTS = 60;
+// A reference line ending this close to where it started is a closed circuit
+const CLOSED_LOOP_METERS = 30;
+// Wider than a track, so a point further from the reference line than this has no real match
+const MAX_OFFSET_METERS = 30;
+
+export interface LineDeviationPoint {
+  time: number;     // Lap time of the lap's track point, in seconds
+  distance: number; // Lap distance of the track point, in metres
+  offset: number;   // Metres from the reference line; positive when left of it, NaN when unmatched
+}
+
+/**
+ * Measures how far a lap's racing line runs from a reference line at each track point.
+ * Each point is matched to the closest segment of the reference line within a window either
+ * side of the previous match, starting from the start of the reference. On a closed circuit
+ * the window wraps around the start line.
+ * @param path The lap's track path.
+ * @param reference The reference lap's track path.
+ * @returns One entry per track point of the lap, or none when either path is too short. Points
+ * further from the reference than a track is wide are left unmatched.
+ */
+export const computeLineDeviation = (path: TrackPathPoint[], reference: TrackPathPoint[]): LineDeviationPoint[] => {
+  if (path.length === 0 || reference.length < 2) return [];
+
+  const origin = reference[0];
+  const points = toLocalMeters(path, origin);
+  const line = toLocalMeters(reference, origin);
+  const distances = distanceFromTrackPath(path);
+
+  // On a circuit the search wraps from the reference's last segment back to its first
+  const isClosed = haversineDistance(reference[0], reference[reference.length - 1]) <= CLOSED_LOOP_METERS;
+  const segmentCount = line.length - 1;
+
+  // Signed distance from a point to a reference segment, and how far it is from the segment
+  const measure = (point: { x: number; y: number }, segment: number) => {
+    const a = line[segment];
+    const b = line[segment + 1];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared > 0
+      ? Math.min(1, Math.max(0, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+      : 0;
+    const closestX = a.x + t * dx;
+    const closestY = a.y + t * dy;
+    const gap = Math.hypot(point.x - closestX, point.y - closestY);
+    // The cross product's sign tells which side of the segment the point is on
+    const side = dx * (point.y - a.y) - dy * (point.x - a.x);
+    return { gap, offset: side >= 0 ? gap : -gap };
+  };
+
+  // A window wider than a closed circuit would visit segments twice
+  const window = isClosed ? Math.min(SEARCH_WINDOW_SEGMENTS, Math.floor((segmentCount - 1) / 2)) : SEARCH_WINDOW_SEGMENTS;
+
+  // Both laps start at the start line, so the first point is matched near the reference's start
+  let previous = 0;
+  return points.map((point, i) => {
+    let best = -1;
+    let bestMeasure = { gap: Infinity, offset: NaN };
+    for (let step = -window; step <= window; step++) {
+      let segment = previous + step;
+      if (isClosed) {
+        segment = (segment + segmentCount) % segmentCount;
+      } else if (segment < 0 || segment >= segmentCount) {
+        continue;
+      }
+      const candidate = measure(point, segment);
+      if (candidate.gap < bestMeasure.gap) {
+        best = segment;
+        bestMeasure = candidate;
+      }
+    }
+    if (best !== -1) previous = best;
+    const offset = bestMeasure.gap <= MAX_OFFSET_METERS ? bestMeasure.offset : NaN;
+    return { time: path[i].s, distance: distances[i].d, offset };
+  });
+};
@@ -0,0 +1,330 @@
+// src/utils/mathExpression.ts
+//
+// A small expression language for math channels. Expressions are parsed into a tree and
+// evaluated sample by sample; nothing is ever passed to eval or the Function constructor.
+//
+//   expression := term (('+' | '-') term)*
+//   term       := unary (('*' | '/') unary)*
+//   unary      := '-' unary | power
+//   power      := primary ('^' unary)?
+//   primary    := number | channel | function '(' arguments ')' | '(' expression ')'
+//   channel    := identifier | '[' any channel name ']'
+
+export type MathFunctionName = 'abs' | 'sqrt' | 'derivative' | 'integrate' | 'smooth';
+
+export type MathNode =
+  | { type: 'number'; value: number }
+  | { type: 'channel'; name: string }
+  | { type: 'negate'; operand: MathNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'call'; name: MathFunctionName; args: MathNode[] };
+
+// Allowed argument counts of each function
+const FUNCTION_ARITY: Record<MathFunctionName, [number, number]> = {
+  abs: [1, 1],
+  sqrt: [1, 1],
+  derivative: [1, 1],
+  integrate: [1, 1],
+  smooth: [1, 2],
+};
+
+// Default window of `smooth`, in seconds
+const DEFAULT_SMOOTH_WINDOW_SECONDS = 0.5;
+
+/**
+ * Error for an expression that cannot be parsed or evaluated.
+ */
+export class MathExpressionError extends Error {
+  position: number | null;
+
+  constructor(message: string, position: number | null = null) {
+    super(position !== null ? `${message} (at character ${position + 1})` : message);
+    this.name = 'MathExpressionError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'channel'; value: string; position: number }
+  | { kind: 'symbol'; value: string; position: number }
+  | { kind: 'end'; position: number };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i));
+      if (!match) throw new MathExpressionError(`Invalid number`, i);
+      tokens.push({ kind: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i)) as RegExpExecArray;
+      tokens.push({ kind: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+    } else if (char === '[') {
+      const end = source.indexOf(']', i + 1);
+      if (end === -1) throw new MathExpressionError(`Missing "]" after channel name`, i);
+      const name = source.slice(i + 1, end).trim();
+      if (!name) throw new MathExpressionError(`Empty channel name`, i);
+      tokens.push({ kind: 'channel', value: name, position: i });
+      i = end + 1;
+    } else if ('+-*/^(),'.includes(char)) {
+      tokens.push({ kind: 'symbol', value: char, position: i });
+      i++;
+    } else {
+      throw new MathExpressionError(`Unexpected character "${char}"`, i);
+    }
+  }
+  tokens.push({ kind: 'end', position: source.length });
+  return tokens;
+};
+
+/**
+ * Parses a math channel expression.
+ * @param source The expression, e.g. `sqrt([Accelerometer X Axis]^2 + [Accelerometer Y Axis]^2)`.
+ * @returns The expression tree.
+ * @throws A MathExpressionError describing the first syntax error.
+ */
+export const parseMathExpression = (source: string): MathNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isSymbol = (value: string) => {
+    const token = peek();
+    return token.kind === 'symbol' && token.value === value;
+  };
+  const expectSymbol = (value: string) => {
+    if (!isSymbol(value)) throw new MathExpressionError(`Expected "${value}"`, peek().position);
+    index++;
+  };
+
+  const parseExpression = (): MathNode => {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = (tokens[index++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): MathNode => {
+    let node = parseUnary();
+    while (isSymbol('*') || isSymbol('/')) {
+      const operator = (tokens[index++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): MathNode => {
+    if (isSymbol('-')) {
+      index++;
+      return { type: 'negate', operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): MathNode => {
+    const base = parsePrimary();
+    if (isSymbol('^')) {
+      index++;
+      // Right associative: a^b^c is a^(b^c)
+      return { type: 'binary', operator: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): MathNode => {
+    const token = tokens[index++];
+    switch (token.kind) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'channel':
+        return { type: 'channel', name: token.value };
+      case 'identifier': {
+        if (!isSymbol('(')) {
+          return { type: 'channel', name: token.value };
+        }
+        if (!(token.value in FUNCTION_ARITY)) {
+          throw new MathExpressionError(`Unknown function "${token.value}"`, token.position);
+        }
+        const name = token.value as MathFunctionName;
+        index++; // Opening parenthesis
+        const args: MathNode[] = [];
+        if (!isSymbol(')')) {
+          args.push(parseExpression());
+          while (isSymbol(',')) {
+            index++;
+            args.push(parseExpression());
+          }
+        }
+        expectSymbol(')');
+        const [minArgs, maxArgs] = FUNCTION_ARITY[name];
+        if (args.length < minArgs || args.length > maxArgs) {
+          const expected = minArgs === maxArgs ? `${minArgs}` : `${minArgs} or ${maxArgs}`;
+          throw new MathExpressionError(`${name}() takes ${expected} argument(s)`, token.position);
+        }
+        return { type: 'call', name, args };
+      }
+      case 'symbol':
+        if (token.value === '(') {
+          const node = parseExpression();
+          expectSymbol(')');
+          return node;
+        }
+        throw new MathExpressionError(`Unexpected "${token.value}"`, token.position);
+      case 'end':
+        throw new MathExpressionError(`Unexpected end of expression`, token.position);
+    }
+  };
+
+  const tree = parseExpression();
+  if (peek().kind !== 'end') {
+    throw new MathExpressionError(`Unexpected input`, peek().position);
+  }
+  return tree;
+};
+
+/**
+ * Lists the channels an expression refers to, without duplicates.
+ */
+export const getChannelReferences = (node: MathNode): string[] => {
+  const names = new Set<string>();
+  const visit = (current: MathNode) => {
+    switch (current.type) {
+      case 'channel': names.add(current.name); break;
+      case 'negate': visit(current.operand); break;
+      case 'binary': visit(current.left); visit(current.right); break;
+      case 'call': current.args.forEach(visit); break;
+    }
+  };
+  visit(node);
+  return [...names];
+};
+
+// A value during evaluation: a constant or one value per timestamp
+type MathValue = number | number[];
+
+const toSeries = (value: MathValue, length: number): number[] =>
+  typeof value === 'number' ? new Array(length).fill(value) : value;
+
+const applyBinary = (operator: string, a: number, b: number): number => {
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return a / b;
+    default: return Math.pow(a, b);
+  }
+};
+
+// Rate of change per second, using central differences inside the series
+const derivative = (values: number[], timestamps: number[]): number[] =>
+  values.map((_, i) => {
+    const before = Math.max(0, i - 1);
+    const after = Math.min(values.length - 1, i + 1);
+    const dt = timestamps[after] - timestamps[before];
+    return dt > 0 ? (values[after] - values[before]) / dt : NaN;
+  });
+
+// Cumulative trapezoidal integral over time, skipping gaps in the data
+const integrate = (values: number[], timestamps: number[]): number[] => {
+  let total = 0;
+  return values.map((value, i) => {
+    if (i > 0 && !Number.isNaN(value) && !Number.isNaN(values[i - 1])) {
+      total += ((value + values[i - 1]) / 2) * (timestamps[i] - timestamps[i - 1]);
+    }
+    return total;
+  });
+};
+
+// Centred moving average over a time window
+const smooth = (values: number[], timestamps: number[], windowSeconds: number): number[] => {
+  const halfWindow = windowSeconds / 2;
+  let start = 0;
+  let end = 0;
+  let sum = 0;
+  let count = 0;
+  return values.map((_, i) => {
+    while (end < values.length && timestamps[end] <= timestamps[i] + halfWindow) {
+      if (!Number.isNaN(values[end])) { sum += values[end]; count++; }
+      end++;
+    }
+    while (timestamps[start] < timestamps[i] - halfWindow) {
+      if (!Number.isNaN(values[start])) { sum -= values[start]; count--; }
+      start++;
+    }
+    return count > 0 ? sum / count : NaN;
+  });
+};
+
+/**
+ * Evaluates an expression on channels sampled at common timestamps.
+ * @param node The parsed expression.
+ * @param timestamps The sample times, in seconds, sorted.
+ * @param channels The value of every referenced channel at each timestamp.
+ * @returns One value per timestamp, NaN where it cannot be computed.
+ * @throws A MathExpressionError if a referenced channel is missing.
+ */
+export const evaluateMathExpression = (
+  node: MathNode,
+  timestamps: number[],
+  channels: Record<string, number[]>
+): number[] => {
+  const length = timestamps.length;
+
+  const evaluate = (current: MathNode): MathValue => {
+    switch (current.type) {
+      case 'number':
+        return current.value;
+      case 'channel': {
+        const values = channels[current.name];
+        if (!values) throw new MathExpressionError(`Unknown channel "${current.name}"`);
+        return values;
+      }
+      case 'negate': {
+        const operand = evaluate(current.operand);
+        return typeof operand === 'number' ? -operand : operand.map(value => -value);
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        if (typeof left === 'number' && typeof right === 'number') {
+          return applyBinary(current.operator, left, right);
+        }
+        const leftSeries = toSeries(left, length);
+        const rightSeries = toSeries(right, length);
+        return leftSeries.map((value, i) => applyBinary(current.operator, value, rightSeries[i]));
+      }
+      case 'call': {
+        const argument = evaluate(current.args[0]);
+        switch (current.name) {
+          case 'abs':
+            return typeof argument === 'number' ? Math.abs(argument) : argument.map(Math.abs);
+          case 'sqrt':
+            return typeof argument === 'number' ? Math.sqrt(argument) : argument.map(Math.sqrt);
+          case 'derivative':
+            return derivative(toSeries(argument, length), timestamps);
+          case 'integrate':
+            return integrate(toSeries(argument, length), timestamps);
+          case 'smooth': {
+            const window = current.args[1] ? evaluate(current.args[1]) : DEFAULT_SMOOTH_WINDOW_SECONDS;
+            if (typeof window !== 'number' || !(window > 0)) {
+              throw new MathExpressionError(`smooth() window must be a positive number of seconds`);
+            }
+            return smooth(toSeries(argument, length), timestamps, window);
+          }
+        }
+      }
+    }
+  };
+
+  return toSeries(evaluate(node), length);
+};
@@ -0,0 +1,126 @@
+// src/utils/resample.ts
+import type { ChannelDataPoint } from '../api/sessionApi';
+
+// Samples further apart than this are treated as a gap and never interpolated across
+export const DEFAULT_MAX_GAP_SECONDS = 1;
+
+export interface ResampleOptions {
+  // Maximum time between two samples that may be interpolated, in seconds
+  maxGap?: number;
+}
+
+export interface AlignOptions extends ResampleOptions {
+  // Timestamps to sample every series at; defaults to the union of all series timestamps
+  // within the time range the series share
+  timestamps?: number[];
+  // Keep rows where some series has no value (as NaN) instead of dropping them
+  keepIncomplete?: boolean;
+}
+
+// One timestamp of several aligned series; values follow the order of the input series
+export interface AlignedRow {
+  s: number;
+  values: number[];
+}
+
+// Drops samples with a non-finite time or value and sorts the rest by time
+const cleanSeries = (series: ChannelDataPoint[]): ChannelDataPoint[] => {
+  const clean = series.filter(point => Number.isFinite(point.s) && Number.isFinite(point.d));
+  for (let i = 1; i < clean.length; i++) {
+    if (clean[i].s < clean[i - 1].s) {
+      return clean.sort((a, b) => a.s - b.s);
+    }
+  }
+  return clean;
+};
+
+// Linear interpolation on a cleaned, sorted series; NaN outside its range or inside a gap
+const interpolateClean = (series: ChannelDataPoint[], s: number, maxGap: number): number => {
+  if (series.length === 0 || !Number.isFinite(s) || s < series[0].s || s > series[series.length - 1].s) {
+    return NaN;
+  }
+
+  // Binary search for the first sample at or after s
+  let low = 0;
+  let high = series.length - 1;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (series[mid].s < s) low = mid + 1;
+    else high = mid;
+  }
+
+  const after = series[low];
+  if (after.s === s) return after.d;
+
+  const before = series[low - 1];
+  const span = after.s - before.s;
+  if (span > maxGap) return NaN;
+  return before.d + ((s - before.s) / span) * (after.d - before.d);
+};
+
+/**
+ * Interpolates a channel value at an arbitrary time.
+ * @param series The channel samples.
+ * @param s The time in seconds.
+ * @returns The linearly interpolated value, or NaN outside the series or inside a gap.
+ */
+export const interpolateAt = (
+  series: ChannelDataPoint[],
+  s: number,
+  { maxGap = DEFAULT_MAX_GAP_SECONDS }: ResampleOptions = {}
+): number => interpolateClean(cleanSeries(series), s, maxGap);
+
+/**
+ * Resamples a channel onto the given timestamps with linear interpolation.
+ * @param series The channel samples.
+ * @param timestamps The times to sample at, in seconds.
+ * @returns One value per timestamp, NaN where the channel has no data.
+ */
+export const resampleSeries = (
+  series: ChannelDataPoint[],
+  timestamps: number[],
+  { maxGap = DEFAULT_MAX_GAP_SECONDS }: ResampleOptions = {}
+): number[] => {
+  const clean = cleanSeries(series);
+  return timestamps.map(s => interpolateClean(clean, s, maxGap));
+};
+
+/**
+ * Joins two or more channels on their `s` timestamps with linear interpolation.
+ * By default every series is sampled at the union of all timestamps within the time
+ * range the series share, and rows where any series is missing a value are dropped.
+ * @param seriesList The channels to align.
+ * @returns The aligned rows, sorted by time.
+ */
+export const alignChannels = (
+  seriesList: ChannelDataPoint[][],
+  { timestamps, keepIncomplete = false, maxGap = DEFAULT_MAX_GAP_SECONDS }: AlignOptions = {}
+): AlignedRow[] => {
+  const cleanList = seriesList.map(cleanSeries);
+  if (cleanList.length === 0) {
+    return [];
+  }
+
+  let sampleTimes = timestamps;
+  if (!sampleTimes) {
+    if (cleanList.some(series => series.length === 0)) {
+      return [];
+    }
+    const start = Math.max(...cleanList.map(series => series[0].s));
+    const end = Math.min(...cleanList.map(series => series[series.length - 1].s));
+    const union = new Set<number>();
+    cleanList.forEach(series => series.forEach(point => {
+      if (point.s >= start && point.s <= end) union.add(point.s);
+    }));
+    sampleTimes = [...union].sort((a, b) => a - b);
+  }
+
+  const rows: AlignedRow[] = [];
+  sampleTimes.forEach(s => {
+    const values = cleanList.map(series => interpolateClean(series, s, maxGap));
+    if (keepIncomplete || values.every(value => !Number.isNaN(value))) {
+      rows.push({ s, values });
+    }
+  });
+  return rows;
+};
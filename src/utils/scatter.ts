@@ -0,0 +1,57 @@
+// src/utils/scatter.ts
+
+// Stretch of a lap, in lap time, picked out by a selection
+export interface LapTimeRange {
+  lap: number;
+  start: number; // Seconds
+  end: number;
+}
+
+/**
+ * Tests whether a point lies inside a polygon (even-odd rule).
+ * @param point The point, in the polygon's coordinates.
+ * @param polygon The polygon's vertices; the last one connects back to the first.
+ */
+export const isPointInPolygon = (
+  point: { x: number; y: number },
+  polygon: Array<{ x: number; y: number }>
+): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Groups the selected samples of a lap into time ranges. Consecutive selected samples form
+ * one range, which extends halfway to the neighbouring samples so a single sample still
+ * covers a stretch of track.
+ * @param lap The lap the samples belong to.
+ * @param times The sample times, sorted.
+ * @param selected Whether each sample is selected.
+ */
+export const toLapTimeRanges = (lap: number, times: number[], selected: boolean[]): LapTimeRange[] => {
+  const ranges: LapTimeRange[] = [];
+  let first = -1;
+  for (let i = 0; i <= times.length; i++) {
+    if (i < times.length && selected[i]) {
+      if (first === -1) first = i;
+      continue;
+    }
+    if (first !== -1) {
+      const last = i - 1;
+      ranges.push({
+        lap,
+        start: first > 0 ? (times[first - 1] + times[first]) / 2 : times[first],
+        end: last < times.length - 1 ? (times[last] + times[last + 1]) / 2 : times[last],
+      });
+      first = -1;
+    }
+  }
+  return ranges;
+};
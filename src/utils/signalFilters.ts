@@ -0,0 +1,144 @@
+// src/utils/signalFilters.ts
+import type { ChannelDataPoint } from '../api/sessionApi';
+import { DEFAULT_MAX_GAP_SECONDS } from './resample';
+
+export type SignalFilterType = 'none' | 'moving-average' | 'exponential' | 'butterworth' | 'median';
+
+// How a channel is smoothed before it is plotted
+export interface SignalFilter {
+  type: SignalFilterType;
+  parameter: number; // Window or time constant in seconds, or cutoff frequency in Hz, depending on the type
+  showRaw: boolean;  // Keep the unfiltered trace visible behind the filtered one
+}
+
+export interface SignalFilterOption {
+  label: string;
+  parameterLabel: string;
+  unit: string;
+  defaultParameter: number;
+  step: number;
+}
+
+export const SIGNAL_FILTERS: Record<SignalFilterType, SignalFilterOption> = {
+  none: { label: 'No filter', parameterLabel: '', unit: '', defaultParameter: 0, step: 0 },
+  'moving-average': { label: 'Moving average', parameterLabel: 'Window', unit: 's', defaultParameter: 0.2, step: 0.05 },
+  exponential: { label: 'Exponential', parameterLabel: 'Time constant', unit: 's', defaultParameter: 0.1, step: 0.05 },
+  butterworth: { label: 'Low-pass Butterworth', parameterLabel: 'Cutoff', unit: 'Hz', defaultParameter: 5, step: 0.5 },
+  median: { label: 'Median', parameterLabel: 'Window', unit: 's', defaultParameter: 0.2, step: 0.05 },
+};
+
+export const DEFAULT_SIGNAL_FILTER: SignalFilter = { type: 'none', parameter: 0, showRaw: false };
+
+// Filters one run of evenly sampled values
+type SegmentFilter = (values: number[], times: number[], parameter: number) => number[];
+
+// Median spacing of a run of samples, in seconds
+const sampleInterval = (times: number[]): number => {
+  const steps = times.slice(1).map((s, i) => s - times[i]).sort((a, b) => a - b);
+  return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0;
+};
+
+// Half-width of a centred window of `seconds`, in samples
+const halfWindow = (times: number[], seconds: number): number => {
+  const interval = sampleInterval(times);
+  return interval > 0 ? Math.max(0, Math.round(seconds / interval / 2)) : 0;
+};
+
+const movingAverage: SegmentFilter = (values, times, seconds) => {
+  const half = halfWindow(times, seconds);
+  // Running sums keep long windows cheap
+  const sums = [0];
+  values.forEach(value => sums.push(sums[sums.length - 1] + value));
+  return values.map((_, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length - 1, i + half);
+    return (sums[to + 1] - sums[from]) / (to - from + 1);
+  });
+};
+
+const median: SegmentFilter = (values, times, seconds) => {
+  const half = halfWindow(times, seconds);
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - half), i + half + 1).sort((a, b) => a - b);
+    const middle = Math.floor(window.length / 2);
+    return window.length % 2 === 1 ? window[middle] : (window[middle - 1] + window[middle]) / 2;
+  });
+};
+
+// Single-pole smoothing; the weight of each sample follows the time since the previous one
+const exponential: SegmentFilter = (values, times, timeConstant) => {
+  if (!(timeConstant > 0)) return values;
+  const result: number[] = [];
+  values.forEach((value, i) => {
+    if (i === 0) {
+      result.push(value);
+      return;
+    }
+    const alpha = 1 - Math.exp(-(times[i] - times[i - 1]) / timeConstant);
+    result.push(result[i - 1] + alpha * (value - result[i - 1]));
+  });
+  return result;
+};
+
+// Second-order low-pass Butterworth run forwards then backwards, so the trace is not delayed
+const butterworth: SegmentFilter = (values, times, cutoffHz) => {
+  const interval = sampleInterval(times);
+  if (!(cutoffHz > 0) || !(interval > 0)) return values;
+  const nyquist = 0.5 / interval;
+  if (cutoffHz >= nyquist) return values;
+
+  // Bilinear transform coefficients
+  const k = Math.tan(Math.PI * cutoffHz * interval);
+  const norm = 1 / (1 + Math.SQRT2 * k + k * k);
+  const b0 = k * k * norm;
+  const b1 = 2 * b0;
+  const b2 = b0;
+  const a1 = 2 * (k * k - 1) * norm;
+  const a2 = (1 - Math.SQRT2 * k + k * k) * norm;
+
+  const pass = (input: number[]): number[] => {
+    // Start settled at the first value so the trace does not ramp up from zero
+    let x1 = input[0], x2 = input[0], y1 = input[0], y2 = input[0];
+    return input.map(x0 => {
+      const y0 = b0 * x0 + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x0;
+      y2 = y1; y1 = y0;
+      return y0;
+    });
+  };
+  return pass(pass(values).reverse()).reverse();
+};
+
+const SEGMENT_FILTERS: Record<Exclude<SignalFilterType, 'none'>, SegmentFilter> = {
+  'moving-average': movingAverage,
+  exponential,
+  butterworth,
+  median,
+};
+
+/**
+ * Smooths a channel. The series is split at gaps in logging and each part is filtered
+ * on its own, so values never bleed across a gap.
+ * @param series The channel samples.
+ * @param filter The filter to apply.
+ * @returns The filtered samples at the original timestamps; samples without a value are dropped.
+ */
+export const applySignalFilter = (series: ChannelDataPoint[], filter: SignalFilter): ChannelDataPoint[] => {
+  if (filter.type === 'none') return series;
+  const apply = SEGMENT_FILTERS[filter.type];
+  const clean = series
+    .filter(point => Number.isFinite(point.s) && Number.isFinite(point.d))
+    .sort((a, b) => a.s - b.s);
+
+  const result: ChannelDataPoint[] = [];
+  let start = 0;
+  for (let i = 1; i <= clean.length; i++) {
+    if (i < clean.length && clean[i].s - clean[i - 1].s <= DEFAULT_MAX_GAP_SECONDS) continue;
+    const segment = clean.slice(start, i);
+    const times = segment.map(point => point.s);
+    apply(segment.map(point => point.d), times, filter.parameter)
+      .forEach((d, j) => result.push({ s: times[j], d }));
+    start = i;
+  }
+  return result;
+};
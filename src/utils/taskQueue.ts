@@ -0,0 +1,41 @@
+// src/utils/taskQueue.ts
+
+export interface TaskQueueOptions {
+  concurrency: number;     // Maximum number of tasks running at once
+  signal?: AbortSignal;    // Stops starting new tasks once aborted
+  // Called after each task settles, with the number of settled tasks so far
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Runs tasks in order with at most `concurrency` of them in flight.
+ * A failing task does not stop the queue; every outcome is reported in the result.
+ * @param tasks The tasks to run, each started lazily.
+ * @param options Concurrency limit, cancellation signal and progress callback.
+ * @returns The settled result of every task that was started, in task order.
+ */
+export const runTaskQueue = async <T>(
+  tasks: Array<() => Promise<T>>,
+  { concurrency, signal, onProgress }: TaskQueueOptions
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = [];
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async () => {
+    while (nextIndex < tasks.length && !signal?.aborted) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await tasks[index]() };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+      completed++;
+      onProgress?.(completed, tasks.length);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, tasks.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results.filter(result => result !== undefined);
+};
@@ -0,0 +1,49 @@
+// src/utils/time.ts
+
+// Matches .NET TimeSpan strings such as "00:00:55.4253000" or "1.02:03:04.5"
+const TIME_SPAN_PATTERN = /^(?:(\d+)\.)?(\d{1,2}):(\d{2}):(\d{2})(?:\.(\d+))?$/;
+
+/**
+ * Parses a time span string ("HH:MM:SS.fffffff", optionally prefixed with "D.") to seconds.
+ * @param value The time span string.
+ * @returns The duration in seconds, or null if the value is missing or malformed.
+ */
+export const parseTimeSpan = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const match = TIME_SPAN_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, days, hours, minutes, seconds, fraction] = match;
+  return (
+    (days ? parseInt(days, 10) * 86400 : 0) +
+    parseInt(hours, 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    (fraction ? parseFloat(`0.${fraction}`) : 0)
+  );
+};
+
+/**
+ * Formats a duration in seconds as a time span string ("HH:MM:SS.fffffff").
+ * @param totalSeconds The duration in seconds.
+ * @returns The formatted time span, the inverse of `parseTimeSpan`.
+ */
+export const formatTimeSpan = (totalSeconds: number): string => {
+  const ticks = Math.round(Math.max(0, totalSeconds) * 1e7);
+  const hours = Math.floor(ticks / 36e9);
+  const minutes = Math.floor((ticks % 36e9) / 6e8);
+  const seconds = Math.floor((ticks % 6e8) / 1e7);
+  const fraction = ticks % 1e7;
+  const pad = (value: number, length: number) => value.toString().padStart(length, '0');
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(fraction, 7)}`;
+};
+
+/**
+ * Formats a lap or sector time for display ("M:SS.mmm", or "SS.mmm" under a minute).
+ * @param totalSeconds The duration in seconds.
+ */
+export const formatLapTime = (totalSeconds: number): string => {
+  const millis = Math.round(Math.max(0, totalSeconds) * 1000);
+  const minutes = Math.floor(millis / 60000);
+  const seconds = ((millis % 60000) / 1000).toFixed(3);
+  return minutes > 0 ? `${minutes}:${seconds.padStart(6, '0')}` : seconds;
+};
@@ -0,0 +1,120 @@
+// src/utils/trackExport.ts
+import type { TrackPathPoint } from '../api/sessionApi';
+import { getColorForSpeed } from './colors';
+
+// Number of colour bands the speed gradient is split into for KML styles
+const KML_SPEED_BANDS = 10;
+
+export interface TrackExportOptions {
+  name: string;
+  // Absolute time of the lap start (session start plus the lap's start offset),
+  // used to turn each point's lap-relative `s` into a timestamp
+  lapStartTime?: Date | null;
+}
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const pointTime = (lapStartTime: Date, s: number): string =>
+  new Date(lapStartTime.getTime() + s * 1000).toISOString();
+
+/**
+ * Builds a GPX 1.1 track of a lap's racing line.
+ * Points carry timestamps when the lap start time is known.
+ * @param path The lap's track path.
+ * @param options The track name and lap start time.
+ */
+export const buildGpx = (path: TrackPathPoint[], { name, lapStartTime }: TrackExportOptions): string => {
+  const startTime = lapStartTime && !Number.isNaN(lapStartTime.getTime()) ? lapStartTime : null;
+  const points = path.map(point => {
+    const time = startTime ? `<time>${pointTime(startTime, point.s)}</time>` : '';
+    return `      <trkpt lat="${point.lat}" lon="${point.lng}">${time}</trkpt>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="LapViz Dashboard" xmlns="http://www.topografix.com/GPX/1/1">',
+    '  <metadata>',
+    `    <name>${escapeXml(name)}</name>`,
+    ...(startTime ? [`    <time>${startTime.toISOString()}</time>`] : []),
+    '  </metadata>',
+    '  <trk>',
+    `    <name>${escapeXml(name)}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    '',
+  ].join('\n');
+};
+
+// KML colours are written as aabbggrr
+const toKmlColor = (hexColor: string): string =>
+  `ff${hexColor.slice(5, 7)}${hexColor.slice(3, 5)}${hexColor.slice(1, 3)}`;
+
+/**
+ * Builds a KML document of a lap's racing line, coloured with the red-to-green speed
+ * gradient the map uses by default. Consecutive segments in the same speed band are merged.
+ * @param path The lap's track path.
+ * @param speeds Speed at each track point (NaN where unknown), or an empty array for a plain line.
+ * @param options The document name.
+ */
+export const buildKml = (path: TrackPathPoint[], speeds: number[], { name }: TrackExportOptions): string => {
+  const validSpeeds = speeds.filter(speed => !Number.isNaN(speed));
+  const minSpeed = validSpeeds.length > 0 ? Math.min(...validSpeeds) : 0;
+  const maxSpeed = validSpeeds.length > 0 ? Math.max(...validSpeeds) : 0;
+  const speedRange = maxSpeed - minSpeed;
+
+  // Band -1 is used for segments without speed data
+  const bandOf = (speed: number | undefined): number => {
+    if (speed === undefined || Number.isNaN(speed) || speedRange === 0) return -1;
+    return Math.min(KML_SPEED_BANDS - 1, Math.floor(((speed - minSpeed) / speedRange) * KML_SPEED_BANDS));
+  };
+
+  const styles = [
+    `  <Style id="speed-none"><LineStyle><color>${toKmlColor('#FF0000')}</color><width>4</width></LineStyle></Style>`,
+    ...Array.from({ length: KML_SPEED_BANDS }, (_, band) => {
+      const bandSpeed = minSpeed + ((band + 0.5) / KML_SPEED_BANDS) * speedRange;
+      const color = getColorForSpeed(bandSpeed, minSpeed, maxSpeed);
+      return `  <Style id="speed-${band}"><LineStyle><color>${toKmlColor(color)}</color><width>4</width></LineStyle></Style>`;
+    }),
+  ];
+
+  const placemarks: string[] = [];
+  let runStart = 0;
+  for (let i = 1; i < path.length; i++) {
+    const band = bandOf(speeds[runStart]);
+    const isRunEnd = i === path.length - 1 || bandOf(speeds[i]) !== band;
+    if (!isRunEnd) continue;
+    const coordinates = path
+      .slice(runStart, i + 1)
+      .map(point => `${point.lng},${point.lat},0`)
+      .join(' ');
+    const label = band === -1
+      ? 'No speed data'
+      : `${(minSpeed + (band / KML_SPEED_BANDS) * speedRange).toFixed(0)}-${(minSpeed + ((band + 1) / KML_SPEED_BANDS) * speedRange).toFixed(0)}`;
+    placemarks.push(
+      `  <Placemark><name>${label}</name><styleUrl>#speed-${band === -1 ? 'none' : band}</styleUrl>` +
+      `<LineString><tessellate>1</tessellate><coordinates>${coordinates}</coordinates></LineString></Placemark>`
+    );
+    runStart = i;
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '<Document>',
+    `  <name>${escapeXml(name)}</name>`,
+    ...styles,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+};
@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_GOOGLE_MAPS_API_KEY?: string;
+  // Session data source: 'http' (live LapViz API) or 'fixture' (recorded sessions)
+  readonly VITE_SESSION_SOURCE?: string;
+  readonly VITE_SESSION_API_URL?: string;
+  readonly VITE_FIXTURE_BASE_URL?: string;
+  // Per-attempt request timeout and number of retries for transient failures
+  readonly VITE_REQUEST_TIMEOUT_MS?: string;
+  readonly VITE_REQUEST_RETRIES?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}